@@ -1,11 +1,36 @@
 import {
   AfterViewInit,
   Component,
+  DestroyRef,
   ElementRef,
+  Input,
   OnDestroy,
   ViewChild,
 } from '@angular/core';
+import { Subscription } from 'rxjs';
 import * as THREE from 'three';
+import {
+  DisposalRegistryService,
+  DisposalScope,
+} from './src/app/webgl/disposal-registry.service';
+import {
+  FrameSchedulerService,
+  FrameState,
+  FrameSubscription,
+} from './src/app/webgl/frame-scheduler.service';
+import { MotionPreferenceService } from './src/app/webgl/motion-preference.service';
+import {
+  QualityService,
+  QualitySettings,
+} from './src/app/webgl/quality.service';
+import {
+  VisibilityHandle,
+  VisibilityService,
+} from './src/app/webgl/visibility.service';
+import {
+  RenderViewHandle,
+  WebGLRendererService,
+} from './src/app/webgl/webgl-renderer.service';
 
 @Component({
   selector: 'app-water-blob',
@@ -25,37 +50,69 @@ import * as THREE from 'three';
 export class WaterBlobComponent implements AfterViewInit, OnDestroy {
   @ViewChild('canvasContainer', { static: true }) container!: ElementRef;
 
+  // Stop animating while scrolled out of view. Disable when the blob is a
+  // fixed page background.
+  @Input() pauseOffscreen = true;
+
   private scene!: THREE.Scene;
   private camera!: THREE.PerspectiveCamera;
-  private renderer!: THREE.WebGLRenderer;
+  private view: RenderViewHandle | null = null;
   private blobMesh!: THREE.Mesh;
-  private animationId!: number;
+  private frameSubscription: FrameSubscription | null = null;
+  private visibility: VisibilityHandle | null = null;
+  private qualitySubscription: Subscription | null = null;
+  // Shared by every blob mesh; rebuilt when the quality tier changes
+  private geometry: THREE.SphereGeometry | null = null;
 
   // Shader uniforms for the noise animation.
   private uniforms: any;
 
+  // Released when the component is destroyed.
+  private readonly resources: DisposalScope;
+
+  constructor(
+    private webgl: WebGLRendererService,
+    private scheduler: FrameSchedulerService,
+    private visibilityService: VisibilityService,
+    private motion: MotionPreferenceService,
+    private quality: QualityService,
+    disposal: DisposalRegistryService,
+    destroyRef: DestroyRef
+  ) {
+    this.resources = disposal.createScope(this, destroyRef);
+  }
+
   ngAfterViewInit(): void {
+    if (!this.webgl.available) return;
+
     this.initThree();
-    this.animate();
+    this.setRunning(true);
+    this.qualitySubscription = this.quality.settings$.subscribe(
+      this.applyQuality
+    );
+
+    if (this.pauseOffscreen) {
+      this.visibility = this.visibilityService.watch(
+        this.container.nativeElement,
+        (visible) => this.setRunning(visible)
+      );
+    }
   }
 
   ngOnDestroy(): void {
-    cancelAnimationFrame(this.animationId);
+    this.visibility?.unobserve();
+    this.qualitySubscription?.unsubscribe();
+    this.frameSubscription?.unsubscribe();
+    this.view?.unregister();
   }
 
   initThree(): void {
     const width = this.container.nativeElement.clientWidth;
     const height = this.container.nativeElement.clientHeight;
 
-    // Create renderer with transparency enabled.
-    this.renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true });
-    this.renderer.setSize(width, height);
-    // Use transparent clear color.
-    this.renderer.setClearColor(0x000000, 0);
-    this.container.nativeElement.appendChild(this.renderer.domElement);
-
-    // Create scene without a background.
-    this.scene = new THREE.Scene();
+    // Create scene without a background. Tracking it disposes the blobs'
+    // current geometry and material on destroy.
+    this.scene = this.resources.track(new THREE.Scene());
     this.scene.background = null;
 
     // Create the camera.
@@ -70,7 +127,9 @@ export class WaterBlobComponent implements AfterViewInit, OnDestroy {
     };
 
     // Create a sphere geometry.
-    const geometry = new THREE.SphereGeometry(1, 128, 128);
+    const segments = this.segmentsFor(this.quality.settings());
+    const geometry = new THREE.SphereGeometry(1, segments, segments);
+    this.geometry = geometry;
 
     // Create a ShaderMaterial that produces an iridescent glass effect.
     const material = new THREE.ShaderMaterial({
@@ -99,9 +158,38 @@ export class WaterBlobComponent implements AfterViewInit, OnDestroy {
     this.scene.add(blobMesh2);
     this.scene.add(blobMesh3);
 
-    window.addEventListener('resize', this.onWindowResize.bind(this));
+    // Draw into the container's rect on the shared (transparent) canvas.
+    this.view = this.webgl.register({
+      label: 'WaterBlob',
+      scene: this.scene,
+      camera: this.camera,
+      element: this.container.nativeElement,
+    });
+
+    this.resources.listen(window, 'resize', () => this.onWindowResize());
+  }
+
+  // 128 segments at full detail, never fewer than 16
+  private segmentsFor({ geometryDetail }: QualitySettings): number {
+    return Math.max(16, Math.round(128 * geometryDetail));
   }
 
+  private applyQuality = (settings: QualitySettings): void => {
+    const previous = this.geometry;
+    const segments = this.segmentsFor(settings);
+    if (!previous || previous.parameters.widthSegments === segments) return;
+
+    const geometry = new THREE.SphereGeometry(1, segments, segments);
+
+    this.scene.traverse((object) => {
+      if (object instanceof THREE.Mesh && object.geometry === previous) {
+        object.geometry = geometry;
+      }
+    });
+    previous.dispose();
+    this.geometry = geometry;
+  };
+
   updateCameraPosition(): void {
     const fov = THREE.MathUtils.degToRad(this.camera.fov);
     const distance = 1.0 / Math.tan(fov / 2);
@@ -113,17 +201,28 @@ export class WaterBlobComponent implements AfterViewInit, OnDestroy {
     const height = this.container.nativeElement.clientHeight;
     this.camera.aspect = width / height;
     this.camera.updateProjectionMatrix();
-    this.renderer.setSize(width, height);
     this.updateCameraPosition();
   }
 
-  animate(): void {
-    // Increment time slowly for smooth morphing.
-    this.uniforms.uTime.value += 0.002;
-    this.renderer.render(this.scene, this.camera);
-    this.animationId = requestAnimationFrame(() => this.animate());
+  private setRunning(running: boolean): void {
+    this.view?.setPaused(!running);
+
+    if (running) {
+      this.frameSubscription ??= this.scheduler.subscribe(this.animate);
+    } else {
+      this.frameSubscription?.unsubscribe();
+      this.frameSubscription = null;
+    }
   }
 
+  animate = ({ delta }: FrameState): void => {
+    // Hold the current shape while motion is reduced
+    if (this.motion.reduced()) return;
+
+    // Advance time slowly for smooth morphing (0.002 per frame at 60fps).
+    this.uniforms.uTime.value += 0.12 * delta;
+  };
+
   // Vertex shader: displaces vertices using simplex noise.
   vertexShader(): string {
     return `
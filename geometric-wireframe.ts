@@ -7,30 +7,43 @@ import {
   OnInit,
   ViewChild,
 } from '@angular/core';
-import { FormsModule } from '@angular/forms';
 import { gsap } from 'gsap';
 import { ScrollTrigger } from 'gsap/ScrollTrigger';
+import { Subscription } from 'rxjs';
 import * as THREE from 'three';
+import { EffectParams, defineParams } from './src/app/webgl/effect-params';
+import { ParamPanelComponent } from './src/app/webgl/param-panel/param-panel.component';
+
+export const FERROFLUID_SPHERE_PARAMS = defineParams({
+  distortion: { type: 'number', min: 0, max: 1, step: 0.01, default: 0 },
+  wireframe: { type: 'boolean', default: false },
+  color: { type: 'color', default: '#333333' },
+  metalness: { type: 'number', min: 0, max: 1, default: 0.9 },
+  roughness: { type: 'number', min: 0, max: 1, default: 0.1 },
+  rotationSpeedX: {
+    type: 'number',
+    min: 0,
+    max: 0.05,
+    step: 0.001,
+    default: 0.002,
+  },
+  rotationSpeedY: {
+    type: 'number',
+    min: 0,
+    max: 0.05,
+    step: 0.001,
+    default: 0.005,
+  },
+});
 
 @Component({
   selector: 'app-ferrofluid-sphere',
   standalone: true,
-  imports: [CommonModule, FormsModule],
+  imports: [CommonModule, ParamPanelComponent],
   template: `
     <div class="container">
       <div class="controls">
-        <div class="distortion-value">
-          Distortion: {{ distortionValue.toFixed(2) }}
-        </div>
-        <input
-          type="range"
-          min="0"
-          max="1"
-          step="0.01"
-          [(ngModel)]="distortionValue"
-          (input)="updateDistortion()"
-        />
-        <button (click)="toggleWireframe()">Toggle Wireframe</button>
+        <app-param-panel [params]="params"></app-param-panel>
       </div>
       <div class="canvas-container">
         <canvas #renderCanvas></canvas>
@@ -50,26 +63,6 @@ import * as THREE from 'three';
         padding: 16px;
         background: #2a2a2a;
         color: white;
-        display: flex;
-        align-items: center;
-        gap: 16px;
-      }
-      .distortion-value {
-        min-width: 120px;
-      }
-      input[type='range'] {
-        flex: 1;
-      }
-      button {
-        padding: 8px 16px;
-        background: #444;
-        color: white;
-        border: none;
-        border-radius: 4px;
-        cursor: pointer;
-      }
-      button:hover {
-        background: #555;
       }
       .canvas-container {
         flex: 1;
@@ -94,10 +87,12 @@ export class FerrofluidSphereComponent
   private originalPositions: Float32Array;
   private clock: THREE.Clock;
   private frameId: number = 0;
-  private wireframe = false;
+  private paramsSubscription?: Subscription;
 
-  // Control variables
-  public distortionValue = 0;
+  readonly params = new EffectParams(
+    'FerrofluidSphere',
+    FERROFLUID_SPHERE_PARAMS
+  );
   private spikes: THREE.Vector3[] = [];
 
   constructor() {
@@ -123,6 +118,7 @@ export class FerrofluidSphereComponent
     }
 
     ScrollTrigger.getAll().forEach((trigger) => trigger.kill());
+    this.paramsSubscription?.unsubscribe();
 
     if (this.sphere) {
       this.sphere.geometry.dispose();
@@ -177,11 +173,22 @@ export class FerrofluidSphereComponent
     );
 
     // Create material
+    const { color, metalness, roughness, wireframe } = this.params.values;
     const material = new THREE.MeshStandardMaterial({
-      color: 0x333333,
-      metalness: 0.9,
-      roughness: 0.1,
-      wireframe: this.wireframe,
+      color,
+      metalness,
+      roughness,
+      wireframe,
+    });
+
+    // Material properties follow the panel; distortion and rotation are read
+    // every frame
+    this.paramsSubscription = this.params.changes$.subscribe((key) => {
+      const values = this.params.values;
+      if (key === 'color') material.color.set(values.color);
+      if (key === 'metalness') material.metalness = values.metalness;
+      if (key === 'roughness') material.roughness = values.roughness;
+      if (key === 'wireframe') material.wireframe = values.wireframe;
     });
 
     this.sphere = new THREE.Mesh(geometry, material);
@@ -229,7 +236,8 @@ export class FerrofluidSphereComponent
     }
 
     // Only apply distortion if value > 0
-    if (this.distortionValue > 0) {
+    const distortion = this.params.values.distortion;
+    if (distortion > 0) {
       // For each vertex in the geometry
       for (let i = 0; i < positions.length; i += 3) {
         const vertexPosition = new THREE.Vector3(
@@ -267,7 +275,7 @@ export class FerrofluidSphereComponent
         }
 
         // Apply the accumulated distortion
-        const distortionAmount = totalDistortion * this.distortionValue;
+        const distortionAmount = totalDistortion * distortion;
         positions[i] += direction.x * distortionAmount;
         positions[i + 1] += direction.y * distortionAmount;
         positions[i + 2] += direction.z * distortionAmount;
@@ -289,8 +297,9 @@ export class FerrofluidSphereComponent
       component.applyDistortion();
 
       // Rotate sphere slightly to show all sides
-      component.sphere.rotation.y += 0.005;
-      component.sphere.rotation.x += 0.002;
+      const { rotationSpeedX, rotationSpeedY } = component.params.values;
+      component.sphere.rotation.y += rotationSpeedY;
+      component.sphere.rotation.x += rotationSpeedX;
 
       component.renderer.render(component.scene, component.camera);
       component.frameId = requestAnimationFrame(render);
@@ -300,9 +309,11 @@ export class FerrofluidSphereComponent
   }
 
   private setupScrollTrigger() {
-    // Use GSAP ScrollTrigger to control distortion
-    gsap.to(this, {
-      distortionValue: 1,
+    // Use GSAP ScrollTrigger to control distortion. The tween writes the value
+    // directly, so the panel's slider shows it but dragging it mid-scroll is
+    // overridden by the next scroll update.
+    gsap.to(this.params.values, {
+      distortion: 1,
       duration: 1,
       scrollTrigger: {
         trigger: document.body,
@@ -312,16 +323,4 @@ export class FerrofluidSphereComponent
       },
     });
   }
-
-  // UI Control methods
-  public updateDistortion() {
-    // This will be called when slider changes
-    this.applyDistortion();
-  }
-
-  public toggleWireframe() {
-    this.wireframe = !this.wireframe;
-    (this.sphere.material as THREE.MeshStandardMaterial).wireframe =
-      this.wireframe;
-  }
 }
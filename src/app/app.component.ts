@@ -1,11 +1,12 @@
 import { Component } from '@angular/core';
 import { RouterOutlet } from '@angular/router';
 import { NavigationControllerComponent } from './navigation-controller/navigation-controller.component';
+import { DebugOverlayComponent } from './webgl/debug-overlay/debug-overlay.component';
 
 @Component({
   selector: 'app-root',
   standalone: true,
-  imports: [RouterOutlet, NavigationControllerComponent],
+  imports: [RouterOutlet, NavigationControllerComponent, DebugOverlayComponent],
   templateUrl: './app.component.html',
   styleUrl: './app.component.scss',
 })
@@ -5,12 +5,17 @@ import {
   Component,
   ElementRef,
   Inject,
-  NgZone,
   OnDestroy,
-  OnInit,
   Renderer2,
   ViewChild,
 } from '@angular/core';
+import { CanvasSpaceRect, toCanvasSpace } from '../../../webgl/dom-to-world';
+import {
+  FramePhase,
+  FrameSchedulerService,
+  FrameSubscription,
+} from '../../../webgl/frame-scheduler.service';
+import { WebGLRendererService } from '../../../webgl/webgl-renderer.service';
 import { ShaderEffectDirective } from '../rgb-shift-distort-on-scroll.directive';
 
 @Component({
@@ -76,36 +81,25 @@ import { ShaderEffectDirective } from '../rgb-shift-distort-on-scroll.directive'
     `,
   ],
 })
-export class CanvasControllerComponent
-  implements OnInit, AfterViewInit, OnDestroy
-{
+export class CanvasControllerComponent implements AfterViewInit, OnDestroy {
   @ViewChild('imageContainer', { static: false }) imageContainer!: ElementRef;
   @ViewChild('meshContainer', { static: false }) meshContainer!: ElementRef;
 
   private overlayElements: HTMLElement[] = [];
-  private animationFrameId: number | null = null;
-  private scrollListener!: Function;
-  private resizeListener!: Function;
+  private overlayRects = new Map<HTMLElement, CanvasSpaceRect>();
+  private frameSubscriptions: FrameSubscription[] = [];
 
   constructor(
-    private ngZone: NgZone,
     private renderer: Renderer2,
+    private scheduler: FrameSchedulerService,
+    private webgl: WebGLRendererService,
     @Inject(DOCUMENT) private document: Document
   ) {}
 
-  ngOnInit(): void {
-    // Set up scroll listener
-    this.scrollListener = this.renderer.listen('window', 'scroll', () => {
-      this.updateOverlayPositions();
-    });
-
-    // Set up resize listener
-    this.resizeListener = this.renderer.listen('window', 'resize', () => {
-      this.updateOverlayPositions();
-    });
-  }
-
   ngAfterViewInit(): void {
+    // The images are revealed by their effect directive instead
+    if (!this.webgl.available) return;
+
     // Wait for images to load
     setTimeout(() => {
       this.createOverlays();
@@ -114,17 +108,7 @@ export class CanvasControllerComponent
   }
 
   ngOnDestroy(): void {
-    if (this.animationFrameId !== null) {
-      cancelAnimationFrame(this.animationFrameId);
-    }
-
-    // Remove event listeners
-    if (this.scrollListener) {
-      this.scrollListener();
-    }
-    if (this.resizeListener) {
-      this.resizeListener();
-    }
+    this.frameSubscriptions.forEach((s) => s.unsubscribe());
 
     // Clean up overlay elements
     this.clearOverlays();
@@ -153,7 +137,7 @@ export class CanvasControllerComponent
 
   private createOverlayForImage(img: HTMLImageElement, index: number): void {
     // Get image position and dimensions
-    const rect = img.getBoundingClientRect();
+    const rect = this.measureImage(img);
 
     // Create overlay element
     const overlay = this.renderer.createElement('div');
@@ -185,10 +169,11 @@ export class CanvasControllerComponent
     overlay: HTMLElement,
     img: HTMLImageElement
   ): void {
-    // Get the image position relative to the viewport
-    const rect = img.getBoundingClientRect();
+    // Get the image position relative to the viewport, preferring the rect
+    // measured in this frame's read phase
+    const rect = this.overlayRects.get(overlay) ?? this.measureImage(img);
 
-    // Position overlay exactly where the image is, relative to the document
+    // Position overlay exactly where the image is, relative to the viewport
     this.renderer.setStyle(overlay, 'position', 'fixed');
     this.renderer.setStyle(overlay, 'left', `${rect.left}px`);
     this.renderer.setStyle(overlay, 'top', `${rect.top}px`);
@@ -205,17 +190,36 @@ export class CanvasControllerComponent
     });
   }
 
-  private startAnimationLoop(): void {
-    this.ngZone.runOutsideAngular(() => {
-      const animate = () => {
-        this.updateOverlayPositions();
-        this.animationFrameId = requestAnimationFrame(animate);
-      };
-
-      this.animationFrameId = requestAnimationFrame(animate);
+  private measureOverlays(): void {
+    this.overlayElements.forEach((overlay) => {
+      const sourceImage = (overlay as any).__sourceImage as HTMLImageElement;
+      if (sourceImage) {
+        this.overlayRects.set(overlay, this.measureImage(sourceImage));
+      }
     });
   }
 
+  // Overlays are position: fixed, so their space is the viewport
+  private measureImage(img: HTMLImageElement): CanvasSpaceRect {
+    const viewport = new DOMRect(0, 0, window.innerWidth, window.innerHeight);
+    return toCanvasSpace(
+      img.getBoundingClientRect(),
+      viewport,
+      window.devicePixelRatio
+    );
+  }
+
+  private startAnimationLoop(): void {
+    // Read every rect first, then write styles, so the browser only lays out once
+    this.frameSubscriptions = [
+      this.scheduler.subscribe(() => this.measureOverlays(), FramePhase.READ),
+      this.scheduler.subscribe(
+        () => this.updateOverlayPositions(),
+        FramePhase.UPDATE
+      ),
+    ];
+  }
+
   private clearOverlays(): void {
     if (this.meshContainer) {
       this.overlayElements.forEach((overlay) => {
@@ -224,6 +228,7 @@ export class CanvasControllerComponent
     }
 
     this.overlayElements = [];
+    this.overlayRects.clear();
   }
 
   // Public method for manual refresh
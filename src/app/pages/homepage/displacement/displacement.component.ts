@@ -2,6 +2,7 @@
 import { CommonModule } from '@angular/common';
 import {
   Component,
+  DestroyRef,
   ElementRef,
   Input,
   OnDestroy,
@@ -9,6 +10,34 @@ import {
   ViewChild,
 } from '@angular/core';
 import * as THREE from 'three';
+import {
+  DisposalRegistryService,
+  DisposalScope,
+} from '../../../webgl/disposal-registry.service';
+import { EffectParams, defineParams } from '../../../webgl/effect-params';
+import { EffectParamsService } from '../../../webgl/effect-params.service';
+import {
+  FrameSchedulerService,
+  FrameState,
+  FrameSubscription,
+} from '../../../webgl/frame-scheduler.service';
+import { MotionPreferenceService } from '../../../webgl/motion-preference.service';
+import { TextureService } from '../../../webgl/texture.service';
+import {
+  VisibilityHandle,
+  VisibilityService,
+} from '../../../webgl/visibility.service';
+import {
+  RenderViewHandle,
+  WebGLRendererService,
+} from '../../../webgl/webgl-renderer.service';
+
+// Tweakable from the debug overlay
+export const FADING_DISPLACEMENT_PARAMS = defineParams({
+  effectIntensity: { type: 'number', min: 0, max: 2, default: 0.4 },
+  // Fraction of the remaining fade covered per frame
+  fadeEase: { type: 'number', min: 0.01, max: 0.3, default: 0.055 },
+});
 
 // Interface for image pair configuration
 export interface ImagePair {
@@ -23,7 +52,22 @@ export interface ImagePair {
   selector: 'app-fading-displacement',
   standalone: true,
   imports: [CommonModule],
-  template: `<div #container class="three-container"></div>`,
+  template: `
+    <div #container class="three-container">
+      <!-- Without WebGL, show the image pairs with a CSS cross-fade instead -->
+      <div *ngIf="fallback" class="fallback-grid" [style.gap.px]="gapSize">
+        <div
+          *ngFor="let pair of imagePairs"
+          class="fallback-item"
+          [style.width.px]="pair.width || 300"
+          [style.height.px]="pair.height || 200"
+        >
+          <img alt [src]="pair.image1" />
+          <img alt [src]="pair.image2" />
+        </div>
+      </div>
+    </div>
+  `,
   styles: [
     `
       .three-container {
@@ -31,6 +75,29 @@ export interface ImagePair {
         height: 100%;
         position: relative;
       }
+      .fallback-grid {
+        display: flex;
+        flex-wrap: wrap;
+        justify-content: center;
+        padding-top: 100px;
+      }
+      .fallback-item {
+        position: relative;
+      }
+      .fallback-item img {
+        position: absolute;
+        inset: 0;
+        width: 100%;
+        height: 100%;
+        object-fit: cover;
+        transition: opacity 0.6s ease;
+      }
+      .fallback-item img + img {
+        opacity: 0;
+      }
+      .fallback-item:hover img + img {
+        opacity: 1;
+      }
     `,
   ],
 })
@@ -42,7 +109,7 @@ export class FadingDisplacementComponent implements OnInit, OnDestroy {
   @Input() height = window.innerHeight;
 
   // Effect settings
-  @Input() effectIntensity = 0.4;
+  @Input() effectIntensity = FADING_DISPLACEMENT_PARAMS.effectIntensity.default;
   @Input() gapSize = 20; // Gap between images
   @Input() itemsPerRow = 3; // Default number of items per row
 
@@ -60,18 +127,25 @@ export class FadingDisplacementComponent implements OnInit, OnDestroy {
   // Shared displacement map for all meshes
   @Input() displacementMap = 'displacement.jpg';
 
+  // Stop animating while the grid is scrolled out of view
+  @Input() pauseOffscreen = true;
+
+  // Set when WebGL is unavailable and the static grid is shown instead
+  fallback = false;
+
   // Three.js variables
   private scene!: THREE.Scene;
   private camera!: THREE.OrthographicCamera; // Using orthographic camera for 2D layout
-  private renderer!: THREE.WebGLRenderer;
+  private view: RenderViewHandle | null = null;
   private meshes: THREE.Mesh[] = [];
   private materials: THREE.ShaderMaterial[] = [];
-  private animationFrameId!: number;
+  private frameSubscription: FrameSubscription | null = null;
+  private visibility: VisibilityHandle | null = null;
   private hoveredMeshIndex: number = -1;
   private dispFactors: number[] = [];
 
   // Cache DOM element for event listeners
-  private rendererDomElement!: HTMLCanvasElement;
+  private containerElement!: HTMLElement;
 
   // Track mouse position for hover detection
   private mouse = new THREE.Vector2();
@@ -123,7 +197,7 @@ export class FadingDisplacementComponent implements OnInit, OnDestroy {
   // Bound event handlers
   private readonly handleMouseMove = (event: MouseEvent): void => {
     // Calculate mouse position in normalized device coordinates (-1 to +1)
-    const rect = this.rendererDomElement.getBoundingClientRect();
+    const rect = this.containerElement.getBoundingClientRect();
     this.mouse.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
     this.mouse.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
 
@@ -132,7 +206,6 @@ export class FadingDisplacementComponent implements OnInit, OnDestroy {
     const intersects = this.raycaster.intersectObjects(this.meshes);
 
     // Reset all hover states
-    const previousHovered = this.hoveredMeshIndex;
     this.hoveredMeshIndex = -1;
 
     // Set hover state for intersected mesh
@@ -146,42 +219,78 @@ export class FadingDisplacementComponent implements OnInit, OnDestroy {
         this.hoveredMeshIndex = index;
       }
     }
-
-    // Only force render if hover state changed (performance optimization)
-    if (previousHovered !== this.hoveredMeshIndex) {
-      this.render();
-    }
   };
 
   // Window resize handler
   private readonly handleResize = (): void => {
-    if (!this.renderer) return;
+    if (!this.view) return;
 
     this.width = window.innerWidth - 40;
     this.height = window.innerHeight;
 
-    // Update renderer
-    this.renderer.setSize(this.width, this.height);
+    // Update the region drawn into on the shared canvas
+    this.updateContainerSize();
 
     // Recalculate layout
     this.updateGridLayout();
   };
 
-  constructor() {}
+  params!: EffectParams<typeof FADING_DISPLACEMENT_PARAMS>;
+
+  // Released when the component is destroyed
+  private readonly resources: DisposalScope;
+
+  constructor(
+    private webgl: WebGLRendererService,
+    private scheduler: FrameSchedulerService,
+    private textures: TextureService,
+    private visibilityService: VisibilityService,
+    private motion: MotionPreferenceService,
+    private effectParams: EffectParamsService,
+    disposal: DisposalRegistryService,
+    destroyRef: DestroyRef
+  ) {
+    this.resources = disposal.createScope(this, destroyRef);
+  }
 
   ngOnInit(): void {
+    this.containerElement = this.containerRef.nativeElement;
+    this.updateContainerSize();
+
+    if (!this.webgl.available) {
+      this.fallback = true;
+      return;
+    }
+
+    this.params = new EffectParams(
+      'FadingDisplacement',
+      FADING_DISPLACEMENT_PARAMS,
+      { effectIntensity: this.effectIntensity }
+    );
+    const published = this.effectParams.publish(this.params);
+    this.resources.add(() => published.unpublish());
+
     this.initThree();
     this.setupEventListeners();
-    this.startAnimation();
+    this.setRunning(true);
+
+    if (this.pauseOffscreen) {
+      this.visibility = this.visibilityService.watch(
+        this.containerElement,
+        (visible) => this.setRunning(visible)
+      );
+    }
   }
 
   ngOnDestroy(): void {
+    if (this.fallback) return;
+
     this.cleanupResources();
   }
 
   private initThree(): void {
-    // Create scene
-    this.scene = new THREE.Scene();
+    // Create scene; tracking it disposes every mesh on destroy
+    this.scene = this.resources.track(new THREE.Scene());
 
     // Use orthographic camera for 2D grid layout
     this.camera = new THREE.OrthographicCamera(
@@ -194,21 +303,21 @@ export class FadingDisplacementComponent implements OnInit, OnDestroy {
     );
     this.camera.position.z = 5;
 
-    // Setup renderer with transparency
-    this.renderer = new THREE.WebGLRenderer({
-      antialias: true,
-      alpha: true,
-      powerPreference: 'high-performance',
+    // Draw into the container's rect on the shared canvas
+    this.view = this.webgl.register({
+      label: 'FadingDisplacement',
+      scene: this.scene,
+      camera: this.camera,
+      element: this.containerElement,
     });
-    this.renderer.setSize(this.width, this.height);
-    this.renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
-    this.rendererDomElement = this.renderer.domElement;
-    this.containerRef.nativeElement.appendChild(this.rendererDomElement);
 
     // Load shared displacement map
-    const textureLoader = new THREE.TextureLoader();
-    const dispTexture = textureLoader.load(this.displacementMap);
-    dispTexture.wrapS = dispTexture.wrapT = THREE.RepeatWrapping;
+    const dispTexture = this.resources.track(
+      this.textures.load(this.displacementMap, {
+        wrapS: THREE.RepeatWrapping,
+        wrapT: THREE.RepeatWrapping,
+      })
+    );
 
     // Create meshes for each image pair
     this.createMeshes(dispTexture);
@@ -217,9 +326,12 @@ export class FadingDisplacementComponent implements OnInit, OnDestroy {
     this.updateGridLayout();
   }
 
-  private createMeshes(dispTexture: THREE.Texture): void {
-    const textureLoader = new THREE.TextureLoader();
+  private updateContainerSize(): void {
+    this.containerElement.style.width = `${this.width}px`;
+    this.containerElement.style.height = `${this.height}px`;
+  }
 
+  private createMeshes(dispTexture: THREE.Texture): void {
     // Clear existing meshes
     this.meshes.forEach((mesh) => {
       this.scene.remove(mesh);
@@ -234,19 +346,19 @@ export class FadingDisplacementComponent implements OnInit, OnDestroy {
     // Create a mesh for each image pair
     this.imagePairs.forEach((pair, index) => {
       // Load textures
-      const texture1 = textureLoader.load(pair.image1);
-      const texture2 = textureLoader.load(pair.image2);
-
-      // Set texture properties
-      [texture1, texture2].forEach((texture) => {
-        texture.wrapS = texture.wrapT = THREE.RepeatWrapping;
-        texture.minFilter = THREE.LinearFilter;
-      });
+      const [texture1, texture2] = [pair.image1, pair.image2].map((url) =>
+        this.resources.track(
+          this.textures.load(url, {
+            wrapS: THREE.RepeatWrapping,
+            wrapT: THREE.RepeatWrapping,
+          })
+        )
+      );
 
       // Create material
       const material = new THREE.ShaderMaterial({
         uniforms: {
-          effectFactor: { value: this.effectIntensity },
+          effectFactor: { value: this.params.values.effectIntensity },
           dispFactor: { value: 0 },
           tex: { value: texture1 },
           tex2: { value: texture2 },
@@ -358,63 +470,54 @@ export class FadingDisplacementComponent implements OnInit, OnDestroy {
     this.camera.updateProjectionMatrix();
   }
 
-  private startAnimation(): void {
-    // Begin the animation loop
-    const animate = (): void => {
-      this.animationFrameId = requestAnimationFrame(animate);
-
-      // Update dispFactors with smooth lerp
-      this.dispFactors.forEach((factor, index) => {
-        this.dispFactors[index] = THREE.MathUtils.lerp(
-          factor,
-          this.hoveredMeshIndex === index ? 1 : 0,
-          0.055
-        );
-
-        // Update material uniform
-        this.materials[index].uniforms['dispFactor'].value =
-          this.dispFactors[index];
-      });
-
-      this.render();
-    };
+  // Runs the animation loop and draws the view only while on screen
+  private setRunning(running: boolean): void {
+    this.view?.setPaused(!running);
 
-    animate();
-  }
-
-  private render(): void {
-    if (this.renderer && this.scene && this.camera) {
-      this.renderer.render(this.scene, this.camera);
+    if (running) {
+      this.frameSubscription ??= this.scheduler.subscribe(this.animate);
+    } else {
+      this.frameSubscription?.unsubscribe();
+      this.frameSubscription = null;
     }
   }
 
-  private setupEventListeners(): void {
-    // Add event listeners
-    this.rendererDomElement.addEventListener('mousemove', this.handleMouseMove);
-    window.addEventListener('resize', this.handleResize);
-  }
+  private readonly animate = (): void => {
+    // Reduced motion drops the displacement, leaving a plain cross-fade
+    const { effectIntensity, fadeEase } = this.params.values;
+    const effectFactor = this.motion.reduced() ? 0 : effectIntensity;
+
+    // Update dispFactors with smooth lerp
+    this.dispFactors.forEach((factor, index) => {
+      this.dispFactors[index] = THREE.MathUtils.lerp(
+        factor,
+        this.hoveredMeshIndex === index ? 1 : 0,
+        fadeEase
+      );
 
-  private cleanupResources(): void {
-    // Cancel animation frame
-    cancelAnimationFrame(this.animationFrameId);
+      // Update material uniforms
+      const uniforms = this.materials[index].uniforms;
+      uniforms['dispFactor'].value = this.dispFactors[index];
+      uniforms['effectFactor'].value = effectFactor;
+    });
+  };
 
-    // Remove event listeners
-    this.rendererDomElement.removeEventListener(
+  private setupEventListeners(): void {
+    // Add event listeners; removed again on destroy
+    this.resources.listen(
+      this.containerElement,
       'mousemove',
       this.handleMouseMove
     );
-    window.removeEventListener('resize', this.handleResize);
+    this.resources.listen(window, 'resize', this.handleResize);
+  }
 
-    // Dispose of Three.js resources
-    this.renderer.dispose();
-    this.meshes.forEach((mesh) => {
-      (mesh.geometry as THREE.BufferGeometry).dispose();
-    });
-    this.materials.forEach((material) => {
-      material.dispose();
-    });
+  private cleanupResources(): void {
+    // Stop the animation loop
+    this.visibility?.unobserve();
+    this.frameSubscription?.unsubscribe();
 
-    // Clear scene
-    this.scene.clear();
+    // Listeners, meshes and textures are released by `resources`
+    this.view?.unregister();
   }
 }
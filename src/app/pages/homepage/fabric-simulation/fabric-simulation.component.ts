@@ -1,22 +1,62 @@
 // fabric-component.ts
 import {
   Component,
+  DestroyRef,
   ElementRef,
-  NgZone,
+  Input,
   OnDestroy,
   OnInit,
   ViewChild,
 } from '@angular/core';
 import { gsap } from 'gsap';
+import { Subscription } from 'rxjs';
 import * as THREE from 'three';
+import {
+  DisposalRegistryService,
+  DisposalScope,
+} from '../../../webgl/disposal-registry.service';
+import { EffectParams, defineParams } from '../../../webgl/effect-params';
+import { EffectParamsService } from '../../../webgl/effect-params.service';
+import {
+  FrameSchedulerService,
+  FrameSubscription,
+} from '../../../webgl/frame-scheduler.service';
+import { MotionPreferenceService } from '../../../webgl/motion-preference.service';
+import { QualityService } from '../../../webgl/quality.service';
+import {
+  ScrollBinding,
+  ScrollProgressService,
+} from '../../../webgl/scroll-progress.service';
+import {
+  ScrollContainer,
+  ScrollService,
+  ScrollState,
+  resolveScrollContainer,
+} from '../../../webgl/scroll.service';
+import {
+  VisibilityHandle,
+  VisibilityService,
+} from '../../../webgl/visibility.service';
+import {
+  RenderViewHandle,
+  WebGLRendererService,
+} from '../../../webgl/webgl-renderer.service';
+
+// Tweakable from the debug overlay
+export const FABRIC_SIMULATION_PARAMS = defineParams({
+  // Fraction of velocity lost per step; lower is more fluid
+  damping: { type: 'number', min: 0, max: 0.2, step: 0.001, default: 0.02 },
+  gravity: { type: 'number', min: 0, max: 1, default: 0.2 },
+  maxWindForce: { type: 'number', min: 0, max: 5, default: 2.25 },
+  // Pull back towards the flat banner
+  tension: { type: 'number', min: 0, max: 0.1, step: 0.001, default: 0.02 },
+});
 
 @Component({
   selector: 'app-fabric-simulation',
   standalone: true,
   template: `
-    <div class="fabric-container" #container>
-      <canvas #canvas></canvas>
-    </div>
+    <div class="fabric-container" #container></div>
   `,
   styles: [
     `
@@ -24,9 +64,8 @@ import * as THREE from 'three';
         width: 100%;
         height: 100vh;
         overflow: hidden;
-      }
-      canvas {
-        display: block;
+        /* Under the transparent shared canvas, which sits above the page */
+        background: #f0f0f0;
       }
     `,
   ],
@@ -34,11 +73,29 @@ import * as THREE from 'three';
 export class FabricSimulationComponent implements OnInit, OnDestroy {
   @ViewChild('container', { static: true })
   container!: ElementRef<HTMLDivElement>;
-  @ViewChild('canvas', { static: true }) canvas!: ElementRef<HTMLCanvasElement>;
+
+  // Suspend the simulation while the cloth is scrolled out of view. Disable
+  // for a fixed background cloth.
+  @Input() pauseOffscreen = true;
+
+  // Scroll container to catch wind from instead of the window, or 'auto'
+  // for the nearest scrollable ancestor. Horizontal scrolling blows the
+  // banner sideways.
+  @Input() scrollContainer: ScrollContainer = null;
+
+  // Simulation parameters driven by scroll progress through the banner,
+  // e.g. gravity rising as it scrolls away: [{ param: 'gravity',
+  // keyframes: [...] }]
+  @Input() scrollBindings: ScrollBinding[] = [];
+
+  readonly params = new EffectParams(
+    'FabricSimulation',
+    FABRIC_SIMULATION_PARAMS
+  );
 
   private scene!: THREE.Scene;
   private camera!: THREE.PerspectiveCamera;
-  private renderer!: THREE.WebGLRenderer;
+  private view: RenderViewHandle | null = null;
   private cloth!: THREE.Mesh;
 
   // Store initial particle positions for reset
@@ -54,8 +111,6 @@ export class FabricSimulationComponent implements OnInit, OnDestroy {
   private particles: Particle[] = [];
   private constraints: Constraint[] = [];
   private windForce = new THREE.Vector3(0, 0, 0);
-  private DAMPING = 0.02; // Reduced for more fluid movement
-  private DRAG = 1 - this.DAMPING;
   private MASS = 0.1;
   private restDistance: number;
 
@@ -63,45 +118,79 @@ export class FabricSimulationComponent implements OnInit, OnDestroy {
   private MAX_DISPLACEMENT = 5;
 
   // Animation properties
-  private previousScrollY = 0;
-  private scrollVelocity = 0;
-  private maxScrollVelocity = 15;
-  private animationFrameId: number | null = null;
+  private scrollSubscription: Subscription | null = null;
+  private frameSubscription: FrameSubscription | null = null;
   private timeStep = 1 / 60;
-  private lastScrollTime = 0;
   private resetTimeout: any = null;
   private isSimulationActive = false;
+  private isVisible = true;
+  private visibility: VisibilityHandle | null = null;
+  // Released when the component is destroyed
+  private readonly resources: DisposalScope;
 
-  constructor(private ngZone: NgZone) {
+  constructor(
+    private webgl: WebGLRendererService,
+    private scheduler: FrameSchedulerService,
+    private scroll: ScrollService,
+    private visibilityService: VisibilityService,
+    private motion: MotionPreferenceService,
+    private quality: QualityService,
+    private effectParams: EffectParamsService,
+    private scrollProgress: ScrollProgressService,
+    disposal: DisposalRegistryService,
+    destroyRef: DestroyRef
+  ) {
     this.restDistance = (this.clothWidth / this.segmentsW) * 0.9;
+    this.resources = disposal.createScope(this, destroyRef);
   }
 
   ngOnInit(): void {
+    // Leave the sections as plain content without WebGL
+    if (!this.webgl.available) return;
+
     this.initThreeJS();
     this.createCloth();
     this.setupScene();
     this.setupScrollListener();
-    this.renderStaticScene(); // Just render once initially
+
+    const published = this.effectParams.publish(this.params);
+    this.resources.add(() => published.unpublish());
+
+    const container = this.container.nativeElement;
+    const bound = this.scrollProgress.bind(this.scrollBindings, {
+      host: container,
+      scroller: resolveScrollContainer(this.scrollContainer, container),
+      params: this.params,
+    });
+    this.resources.add(() => bound.release());
+
+    if (this.pauseOffscreen) {
+      this.visibility = this.visibilityService.watch(
+        this.container.nativeElement,
+        (visible) => {
+          this.isVisible = visible;
+          this.view?.setPaused(!visible);
+          this.updateLoop();
+        }
+      );
+    }
   }
 
   ngOnDestroy(): void {
-    if (this.animationFrameId !== null) {
-      cancelAnimationFrame(this.animationFrameId);
-    }
-    window.removeEventListener('scroll', this.handleScroll);
+    this.visibility?.unobserve();
+    this.frameSubscription?.unsubscribe();
+    this.scrollSubscription?.unsubscribe();
     if (this.resetTimeout) {
       clearTimeout(this.resetTimeout);
     }
 
-    // Clean up Three.js resources
-    this.scene.clear();
-    this.renderer.dispose();
+    // The scene's meshes are disposed by `resources`
+    this.view?.unregister();
   }
 
   private initThreeJS(): void {
-    // Initialize scene
-    this.scene = new THREE.Scene();
-    this.scene.background = new THREE.Color(0xf0f0f0);
+    // Initialize scene; tracking it disposes the cloth and grid on destroy
+    this.scene = this.resources.track(new THREE.Scene());
 
     // Initialize camera
     const aspect = window.innerWidth / window.innerHeight;
@@ -109,13 +198,13 @@ export class FabricSimulationComponent implements OnInit, OnDestroy {
     this.camera.position.set(0, 0, 80);
     this.camera.lookAt(0, 0, 0);
 
-    // Initialize renderer
-    this.renderer = new THREE.WebGLRenderer({
-      canvas: this.canvas.nativeElement,
-      antialias: true,
+    // Draw into the container's rect on the shared canvas
+    this.view = this.webgl.register({
+      label: 'FabricSimulation',
+      scene: this.scene,
+      camera: this.camera,
+      element: this.container.nativeElement,
     });
-    this.renderer.setSize(window.innerWidth, window.innerHeight);
-    this.renderer.setPixelRatio(window.devicePixelRatio);
 
     // Add lights
     const ambientLight = new THREE.AmbientLight(0xffffff, 0.5);
@@ -131,7 +220,9 @@ export class FabricSimulationComponent implements OnInit, OnDestroy {
     this.scene.add(pointLight);
 
     // Handle window resize
-    window.addEventListener('resize', () => this.onWindowResize());
+    this.resources.listen(window, 'resize', () => this.onWindowResize());
+    // Wind tweens would otherwise outlive the component
+    this.resources.add(() => gsap.killTweensOf(this.windForce));
   }
 
   private createCloth(): void {
@@ -223,55 +314,60 @@ export class FabricSimulationComponent implements OnInit, OnDestroy {
     this.scene.add(gridHelper);
   }
 
-  // Just render once for the initial static state
-  private renderStaticScene(): void {
-    this.renderer.render(this.scene, this.camera);
-  }
-
   private setupScrollListener(): void {
-    window.addEventListener('scroll', this.handleScroll);
+    const scroll = this.scroll.observe(
+      this.scrollContainer,
+      this.container.nativeElement
+    );
+    this.resources.add(() => scroll.release());
+    this.scrollSubscription = scroll.source.state$.subscribe(this.handleScroll);
   }
 
-  private handleScroll = (): void => {
-    const currentScrollY = window.scrollY;
-    this.scrollVelocity = currentScrollY - this.previousScrollY;
+  private handleScroll = ({
+    velocity,
+    velocityX,
+    speed,
+  }: ScrollState): void => {
+    // Settled: let the banner come to rest
+    if (velocity === 0 && velocityX === 0) {
+      if (this.isSimulationActive) {
+        this.resetFabric();
+      }
+      return;
+    }
 
-    // Clamp the velocity to prevent extreme values
-    this.scrollVelocity = Math.max(
-      -this.maxScrollVelocity,
-      Math.min(this.maxScrollVelocity, this.scrollVelocity)
-    );
+    // With reduced motion the banner just hangs still
+    if (this.motion.reduced()) return;
 
     // Only apply significant wind if velocity exceeds threshold
-    if (Math.abs(this.scrollVelocity) > 1) {
-      // Amplify the effect for more dramatic response
-      const scaledVelocity = this.scrollVelocity * 0.15;
+    if (speed > 0.05) {
+      // Normalised speed is already clamped, so wind can't explode the cloth.
+      // It is shared out between the axes by their velocities.
+      const windForce =
+        (speed * this.params.values.maxWindForce) /
+        Math.hypot(velocity, velocityX);
 
       // For a banner, we store wind force in y but apply it to z in the simulation
       gsap.to(this.windForce, {
-        y: scaledVelocity,
+        x: velocityX * windForce,
+        y: velocity * windForce,
         duration: 0.2,
         ease: 'power1.out',
+        overwrite: true,
       });
 
       // Start animation if not already running
       if (!this.isSimulationActive) {
         this.isSimulationActive = true;
-        this.animate();
+        this.updateLoop();
       }
     }
 
-    this.previousScrollY = currentScrollY;
-
-    // Clear any existing timeout
+    // Scrolling again, so cancel any pending settle check
     if (this.resetTimeout) {
       clearTimeout(this.resetTimeout);
+      this.resetTimeout = null;
     }
-
-    // Set timeout to reset the fabric after scrolling stops
-    this.resetTimeout = setTimeout(() => {
-      this.resetFabric();
-    }, 500); // 500ms after scrolling stops
   };
 
   private resetFabric(): void {
@@ -296,10 +392,7 @@ export class FabricSimulationComponent implements OnInit, OnDestroy {
     this.resetTimeout = setTimeout(() => {
       if (this.isClothStable()) {
         this.isSimulationActive = false;
-        if (this.animationFrameId) {
-          cancelAnimationFrame(this.animationFrameId);
-          this.animationFrameId = null;
-        }
+        this.updateLoop();
       } else {
         // Check again later if still moving
         this.resetTimeout = setTimeout(() => this.resetFabric(), 500);
@@ -354,8 +447,11 @@ export class FabricSimulationComponent implements OnInit, OnDestroy {
   }
 
   private simulate(): void {
+    const { damping, gravity: weight, tension } = this.params.values;
+    const drag = 1 - damping;
+
     // Constant gravity - always pulling downward
-    const gravity = new THREE.Vector3(0, -0.2, 0);
+    const gravity = new THREE.Vector3(0, -weight, 0);
 
     // Apply forces to particles
     for (const particle of this.particles) {
@@ -365,7 +461,12 @@ export class FabricSimulationComponent implements OnInit, OnDestroy {
 
         // Apply wind force - wind should mostly push the banner in the z direction
         // (perpendicular to the plane of the banner)
-        const windEffect = new THREE.Vector3(0, 0, this.windForce.y);
+        // Horizontal scrolling sways it sideways
+        const windEffect = new THREE.Vector3(
+          this.windForce.x,
+          0,
+          this.windForce.y
+        );
         particle.addForce(windEffect);
 
         // Add a gentle restoration force in z-axis to simulate fabric tension
@@ -373,7 +474,7 @@ export class FabricSimulationComponent implements OnInit, OnDestroy {
         const flatteningForce = new THREE.Vector3(
           0,
           0,
-          -particle.position.z * 0.02
+          -particle.position.z * tension
         );
         particle.addForce(flatteningForce);
 
@@ -384,7 +485,7 @@ export class FabricSimulationComponent implements OnInit, OnDestroy {
             particle.position
               .clone()
               .sub(particle.oldPosition)
-              .multiplyScalar(this.DRAG)
+              .multiplyScalar(drag)
           )
           .add(
             particle.acceleration
@@ -408,8 +509,9 @@ export class FabricSimulationComponent implements OnInit, OnDestroy {
       }
     }
 
-    // Satisfy constraints with multiple iterations for stability
-    const numIterations = 5;
+    // Satisfy constraints with multiple iterations for stability; fewer on
+    // slower devices at the cost of a slightly stretchier cloth
+    const numIterations = this.quality.settings().physicsIterations;
     for (let i = 0; i < numIterations; i++) {
       for (const constraint of this.constraints) {
         constraint.satisfy();
@@ -454,33 +556,29 @@ export class FabricSimulationComponent implements OnInit, OnDestroy {
     // Reset wind force
     this.windForce.set(0, 0, 0);
 
-    // Render once
-    this.renderStaticScene();
-
     // Stop animation
     this.isSimulationActive = false;
+    this.updateLoop();
   }
 
-  private animate = (): void => {
-    // Only continue animation if simulation is active
-    if (!this.isSimulationActive) return;
+  // Only subscribed to the frame scheduler while the simulation is active
+  // and the cloth is on screen; it picks up where it left off when resumed
+  private updateLoop(): void {
+    if (this.isSimulationActive && this.isVisible) {
+      this.frameSubscription ??= this.scheduler.subscribe(this.animate);
+    } else {
+      this.frameSubscription?.unsubscribe();
+      this.frameSubscription = null;
+    }
+  }
 
-    this.ngZone.runOutsideAngular(() => {
-      this.simulate();
-      this.renderer.render(this.scene, this.camera);
-      this.animationFrameId = requestAnimationFrame(this.animate);
-    });
+  private animate = (): void => {
+    this.simulate();
   };
 
   private onWindowResize(): void {
     this.camera.aspect = window.innerWidth / window.innerHeight;
     this.camera.updateProjectionMatrix();
-    this.renderer.setSize(window.innerWidth, window.innerHeight);
-
-    // Re-render if not animating
-    if (!this.isSimulationActive) {
-      this.renderStaticScene();
-    }
   }
 
   private index(u: number, v: number): number {
@@ -1,31 +1,67 @@
-import { Component, ElementRef, ViewChild } from '@angular/core';
+import {
+  Component,
+  DestroyRef,
+  ElementRef,
+  OnDestroy,
+  ViewChild,
+} from '@angular/core';
 import { gsap } from 'gsap';
 import * as THREE from 'three';
+import {
+  DisposalRegistryService,
+  DisposalScope,
+} from '../../../webgl/disposal-registry.service';
+import { MotionPreferenceService } from '../../../webgl/motion-preference.service';
+import { TextureService } from '../../../webgl/texture.service';
+import {
+  RenderViewHandle,
+  WebGLRendererService,
+} from '../../../webgl/webgl-renderer.service';
 
 @Component({
   selector: 'app-fabric',
   standalone: true,
   imports: [],
   template: '<div #rendererContainer></div>',
-  styles: ['div { width: 100vw; height: 100vh; }'],
+  // The shared canvas is transparent; the backdrop its own renderer cleared
+  // to is painted here
+  styles: ['div { width: 100vw; height: 100vh; background: #000; }'],
 })
-export class FabricComponent {
+export class FabricComponent implements OnDestroy {
   @ViewChild('rendererContainer') rendererContainer!: ElementRef;
   private scene!: THREE.Scene;
   private camera!: THREE.PerspectiveCamera;
-  private renderer!: THREE.WebGLRenderer;
+  private view: RenderViewHandle | null = null;
   private mesh!: THREE.Mesh;
   private originalVertices!: Float32Array; // Store initial vertex positions
+  // Released when the component is destroyed
+  private readonly resources: DisposalScope;
+
+  constructor(
+    private webgl: WebGLRendererService,
+    private textures: TextureService,
+    private motion: MotionPreferenceService,
+    disposal: DisposalRegistryService,
+    destroyRef: DestroyRef
+  ) {
+    this.resources = disposal.createScope(this, destroyRef);
+  }
 
   ngAfterViewInit() {
+    if (!this.webgl.available) return;
+
     this.initScene();
     this.createFabricMesh();
     this.addEventListeners();
-    this.animate();
+  }
+
+  ngOnDestroy() {
+    this.view?.unregister();
   }
 
   private initScene() {
-    this.scene = new THREE.Scene();
+    // Tracking the scene disposes the fabric mesh on destroy
+    this.scene = this.resources.track(new THREE.Scene());
     this.camera = new THREE.PerspectiveCamera(
       75,
       window.innerWidth / window.innerHeight,
@@ -34,23 +70,19 @@ export class FabricComponent {
     );
     this.camera['position'].z = 5;
 
-    this.renderer = new THREE.WebGLRenderer({ antialias: true });
-    this.renderer.setSize(window.innerWidth, window.innerHeight);
-    this.rendererContainer.nativeElement.appendChild(this.renderer.domElement);
+    // Draw into the container's rect on the shared canvas
+    this.view = this.webgl.register({
+      label: 'Fabric',
+      scene: this.scene,
+      camera: this.camera,
+      element: this.rendererContainer.nativeElement,
+    });
   }
 
   private createFabricMesh() {
     const geometry = new THREE.PlaneGeometry(5, 5, 32, 32);
-    const textureLoader = new THREE.TextureLoader();
-    const texture = textureLoader.load('robot.png'); // Ensure path is correct
-
-    // Log texture loading issues
-    textureLoader.load(
-      '/assets/robot.png',
-      (tex) => console.log('Texture loaded successfully'),
-      undefined,
-      (err) => console.error('Error loading texture:', err)
-    );
+    // Failures are reported through TextureService.errors$
+    const texture = this.resources.track(this.textures.load('robot.png'));
 
     const material = new THREE.MeshPhongMaterial({
       map: texture,
@@ -66,16 +98,22 @@ export class FabricComponent {
     this.originalVertices =
       this.mesh.geometry.attributes['position'].array.slice();
 
+    // Reset tweens would otherwise outlive the component
+    const vertices = this.mesh.geometry.attributes['position'].array;
+    this.resources.add(() => gsap.killTweensOf(vertices));
+
     const light = new THREE.DirectionalLight(0xffffff, 1);
     light['position'].set(0, 1, 1).normalize();
     this.scene.add(light);
   }
 
   private addEventListeners() {
-    window.addEventListener('wheel', (event) => this.onScroll(event));
+    this.resources.listen(window, 'wheel', (event) => this.onScroll(event));
   }
 
   private onScroll(event: WheelEvent) {
+    if (this.motion.reduced()) return;
+
     const scrollDelta = event.deltaY * 0.01; // Increased sensitivity
     this.animateFabric(scrollDelta);
   }
@@ -107,9 +145,4 @@ export class FabricComponent {
       },
     });
   }
-
-  private animate() {
-    requestAnimationFrame(() => this.animate());
-    this.renderer.render(this.scene, this.camera);
-  }
 }
@@ -0,0 +1,324 @@
+// ferrofluid-scene.ts
+import * as THREE from 'three';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { UnrealBloomPass } from 'three/examples/jsm/postprocessing/UnrealBloomPass.js';
+import type { OffscreenFrameState } from '../../../webgl/offscreen-protocol';
+import type { QualitySettings } from '../../../webgl/quality-settings';
+
+// Subdivision 20 at full detail, never below 4
+function detailFor({ geometryDetail }: QualitySettings): number {
+  return Math.max(4, Math.round(20 * geometryDetail));
+}
+
+/**
+ * The scroll-reactive blob without any DOM or Angular dependencies, so the
+ * same scene renders on the shared main-thread renderer or on an
+ * OffscreenCanvas inside ferrofluid.worker.ts.
+ */
+export class FerrofluidScene {
+  readonly scene = new THREE.Scene();
+  readonly camera: THREE.PerspectiveCamera;
+
+  private blob: THREE.Mesh<THREE.IcosahedronGeometry, THREE.ShaderMaterial>;
+  private composer!: EffectComposer;
+  private bloomPass!: UnrealBloomPass;
+  private settings: QualitySettings;
+  private width: number;
+  private height: number;
+
+  // Shader time; only advances while running so resuming doesn't jump
+  private time = 0;
+
+  // Perlin noise intensity that will be updated based on scroll speed
+  private noiseIntensity = 0.5;
+
+  constructor(
+    private renderer: THREE.WebGLRenderer,
+    width: number,
+    height: number,
+    settings: QualitySettings
+  ) {
+    this.width = width;
+    this.height = height;
+    this.settings = settings;
+
+    this.camera = new THREE.PerspectiveCamera(75, width / height, 0.1, 1000);
+    this.camera.position.z = 5;
+
+    this.blob = this.createBlob();
+    this.scene.add(this.blob);
+    this.createComposer();
+  }
+
+  // The blob's shader uniforms, e.g. for scroll bindings: uNoiseIntensity,
+  // uPrimaryColor, uSecondaryColor and uOpacity
+  get uniforms(): Record<string, THREE.IUniform> {
+    return this.blob.material.uniforms;
+  }
+
+  // The bloom pass keeps its own render targets, so rebuild the chain after
+  // a context loss
+  rebuildComposer(): void {
+    this.composer.dispose();
+    this.createComposer();
+  }
+
+  resize(width: number, height: number): void {
+    this.width = width;
+    this.height = height;
+    this.camera.aspect = width / height;
+    this.camera.updateProjectionMatrix();
+    this.composer.setSize(width, height);
+  }
+
+  // Expects the renderer to have already applied the tier's pixel ratio
+  applyQuality(settings: QualitySettings): void {
+    this.settings = settings;
+    this.bloomPass.enabled = settings.postProcessing;
+    this.composer.setPixelRatio(this.renderer.getPixelRatio());
+
+    const previous = this.blob.geometry;
+    const detail = detailFor(settings);
+    if (previous.parameters.detail === detail) return;
+
+    this.blob.geometry = new THREE.IcosahedronGeometry(2, detail);
+    previous.dispose();
+  }
+
+  update({
+    delta,
+    speed,
+    reduced,
+  }: Pick<OffscreenFrameState, 'delta' | 'speed' | 'reduced'>): void {
+    // With reduced motion the blob settles into a still, undistorted frame
+    if (!reduced) this.time += delta;
+    if (reduced) speed = 0;
+
+    // Map the shared normalised scroll speed to a noise range of 0.5 - 3.0;
+    // it eases back to the base value on its own once scrolling settles
+    const targetNoiseIntensity = 0.5 + speed * 2.5;
+
+    // Update the shader uniforms
+    const uniforms = this.blob.material.uniforms;
+    uniforms['uTime'].value = this.time;
+
+    // Smoothly interpolate noise intensity toward target value
+    this.noiseIntensity += (targetNoiseIntensity - this.noiseIntensity) * 0.05;
+    uniforms['uNoiseIntensity'].value = this.noiseIntensity;
+
+    // Rotate the blob slightly for extra movement, tilting with scroll speed
+    if (!reduced) this.blob.rotation.y += 0.003;
+    this.blob.rotation.x += (speed * 0.1 - this.blob.rotation.x) * 0.1;
+  }
+
+  render(): void {
+    this.composer.render();
+  }
+
+  dispose(): void {
+    this.blob.geometry.dispose();
+    this.blob.material.dispose();
+    this.composer.dispose();
+  }
+
+  private createComposer(): void {
+    this.bloomPass = new UnrealBloomPass(
+      new THREE.Vector2(this.width, this.height),
+      0.8, // strength
+      0.3, // radius
+      0.7 // threshold
+    );
+    this.bloomPass.enabled = this.settings.postProcessing;
+
+    const renderScene = new RenderPass(this.scene, this.camera);
+    this.composer = new EffectComposer(this.renderer);
+    this.composer.setPixelRatio(this.renderer.getPixelRatio());
+    this.composer.setSize(this.width, this.height);
+    this.composer.addPass(renderScene);
+    this.composer.addPass(this.bloomPass);
+  }
+
+  private createBlob(): THREE.Mesh<
+    THREE.IcosahedronGeometry,
+    THREE.ShaderMaterial
+  > {
+    // Create a sphere geometry as the base for our blob
+    const geometry = new THREE.IcosahedronGeometry(
+      2,
+      detailFor(this.settings)
+    );
+
+    // Create shader material with custom vertex and fragment shaders
+    const material = new THREE.ShaderMaterial({
+      uniforms: {
+        uTime: { value: 0 },
+        uNoiseIntensity: { value: this.noiseIntensity },
+        uPrimaryColor: { value: new THREE.Color(0x88ccff) },
+        uSecondaryColor: { value: new THREE.Color(0xff88aa) },
+        uOpacity: { value: 0.85 },
+      },
+      vertexShader: `
+    uniform float uTime;
+    uniform float uNoiseIntensity;
+
+    varying vec3 vNormal;
+    varying vec3 vPosition;
+    varying vec2 vUv;
+
+    // Simplex noise functions (simplified for demonstration)
+    // In production, use a more complete noise implementation
+    vec3 mod289(vec3 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
+    vec4 mod289(vec4 x) { return x - floor(x * (1.0 / 289.0)) * 289.0; }
+    vec4 permute(vec4 x) { return mod289(((x*34.0)+1.0)*x); }
+    vec4 taylorInvSqrt(vec4 r) { return 1.79284291400159 - 0.85373472095314 * r; }
+
+    float snoise(vec3 v) {
+      const vec2 C = vec2(1.0/6.0, 1.0/3.0);
+      const vec4 D = vec4(0.0, 0.5, 1.0, 2.0);
+
+      // First corner
+      vec3 i = floor(v + dot(v, C.yyy));
+      vec3 x0 = v - i + dot(i, C.xxx);
+
+      // Other corners
+      vec3 g = step(x0.yzx, x0.xyz);
+      vec3 l = 1.0 - g;
+      vec3 i1 = min(g.xyz, l.zxy);
+      vec3 i2 = max(g.xyz, l.zxy);
+
+      vec3 x1 = x0 - i1 + C.xxx;
+      vec3 x2 = x0 - i2 + C.yyy;
+      vec3 x3 = x0 - D.yyy;
+
+      // Permutations
+      i = mod289(i);
+      vec4 p = permute(permute(permute(
+                 i.z + vec4(0.0, i1.z, i2.z, 1.0))
+               + i.y + vec4(0.0, i1.y, i2.y, 1.0))
+               + i.x + vec4(0.0, i1.x, i2.x, 1.0));
+
+      // Gradients
+      float n_ = 0.142857142857;
+      vec3 ns = n_ * D.wyz - D.xzx;
+
+      vec4 j = p - 49.0 * floor(p * ns.z * ns.z);
+
+      vec4 x_ = floor(j * ns.z);
+      vec4 y_ = floor(j - 7.0 * x_);
+
+      vec4 x = x_ * ns.x + ns.yyyy;
+      vec4 y = y_ * ns.x + ns.yyyy;
+      vec4 h = 1.0 - abs(x) - abs(y);
+
+      vec4 b0 = vec4(x.xy, y.xy);
+      vec4 b1 = vec4(x.zw, y.zw);
+
+      vec4 s0 = floor(b0) * 2.0 + 1.0;
+      vec4 s1 = floor(b1) * 2.0 + 1.0;
+      vec4 sh = -step(h, vec4(0.0));
+
+      vec4 a0 = b0.xzyw + s0.xzyw * sh.xxyy;
+      vec4 a1 = b1.xzyw + s1.xzyw * sh.zzww;
+
+      vec3 p0 = vec3(a0.xy, h.x);
+      vec3 p1 = vec3(a0.zw, h.y);
+      vec3 p2 = vec3(a1.xy, h.z);
+      vec3 p3 = vec3(a1.zw, h.w);
+
+      // Normalise gradients
+      vec4 norm = taylorInvSqrt(vec4(dot(p0, p0), dot(p1, p1), dot(p2, p2), dot(p3, p3)));
+      p0 *= norm.x;
+      p1 *= norm.y;
+      p2 *= norm.z;
+      p3 *= norm.w;
+
+      // Mix final noise value
+      vec4 m = max(0.6 - vec4(dot(x0, x0), dot(x1, x1), dot(x2, x2), dot(x3, x3)), 0.0);
+      m = m * m;
+      return 42.0 * dot(m * m, vec4(dot(p0, x0), dot(p1, x1), dot(p2, x2), dot(p3, x3)));
+    }
+
+    void main() {
+      // Use the original vertex position as the base
+      vec3 pos = position;
+
+      // Apply noise-based deformation
+      float noise = snoise(
+        vec3(
+          pos.x * 0.5,
+          pos.y * 0.5,
+          pos.z * 0.5 + uTime * 0.2
+        )
+      );
+
+      // Deform the surface based on noise and intensity
+      vec3 newPos = pos + normal * noise * uNoiseIntensity;
+
+      // Pass data to fragment shader
+      vNormal = normalMatrix * normal;
+      vPosition = newPos;
+      vUv = uv;
+
+      // Project the vertex
+      gl_Position = projectionMatrix * modelViewMatrix * vec4(newPos, 1.0);
+    }
+  `,
+      // Update the fragment shader with edge glow effect
+      fragmentShader: `
+  uniform vec3 uPrimaryColor;
+  uniform vec3 uSecondaryColor;
+  uniform float uTime;
+  uniform float uOpacity;
+
+  varying vec3 vNormal;
+  varying vec3 vPosition;
+  varying vec2 vUv;
+  varying float vCraterDepth;
+
+  void main() {
+    // Calculate fresnel effect for pearlescence and edge glow
+    vec3 viewDirection = normalize(cameraPosition - vPosition);
+    float fresnel = pow(1.0 - dot(viewDirection, normalize(vNormal)), 4.0);
+
+    // Enhanced fresnel for edge glow effect
+    float edgeGlow = pow(1.0 - dot(viewDirection, normalize(vNormal)), 8.0);
+
+    // Create pearlescent color shifting effect
+    float pearl = (sin(vUv.x * 10.0 + uTime * 0.5) * 0.5 + 0.5) *
+                  (sin(vUv.y * 8.0 + uTime * 0.4) * 0.5 + 0.5);
+
+    // Mix colors based on viewing angle and pearl pattern
+    vec3 color = mix(uPrimaryColor, uSecondaryColor, fresnel * 0.7 + pearl * 0.3);
+
+    // Apply lighting effects (enhanced for pearlescence)
+    vec3 light = normalize(vec3(1.0, 2.0, 3.0));
+    float diffuse = max(0.0, dot(vNormal, light)) * 0.6 + 0.4;
+    color = color * diffuse;
+
+    // Create a glowing edge effect
+    // Use a brighter color that's complementary to the primary/secondary colors
+    vec3 glowColor = vec3(0.6, 0.8, 1.0); // Bright blue-white glow
+
+    // Add the glow, stronger at edges based on enhanced fresnel
+    color += glowColor * edgeGlow * 0.8;
+
+    // Add pulsating effect to the glow
+    float pulse = sin(uTime * 0.8) * 0.5 + 0.5;
+    color += glowColor * edgeGlow * pulse * 0.4;
+
+    // Add iridescent highlights
+    color += vec3(0.1, 0.1, 0.2) * fresnel * pearl;
+
+    // Set final color with variable opacity
+    // Make edges slightly more transparent for better glow effect
+    float alpha = mix(uOpacity, uOpacity + 0.1, edgeGlow);
+    gl_FragColor = vec4(color, alpha);
+  }
+`,
+      transparent: true, // Enable transparency
+    });
+
+    return new THREE.Mesh(geometry, material);
+  }
+}
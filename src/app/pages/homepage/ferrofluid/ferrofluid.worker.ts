@@ -0,0 +1,8 @@
+/// <reference lib="webworker" />
+import { runOffscreenEffect } from '../../../webgl/offscreen-worker';
+import { FerrofluidScene } from './ferrofluid-scene';
+
+runOffscreenEffect(
+  (renderer, { width, height, settings }) =>
+    new FerrofluidScene(renderer, width, height, settings)
+);
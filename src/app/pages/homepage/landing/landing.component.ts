@@ -3,6 +3,7 @@ import gsap from 'gsap';
 import { ScrollTrigger } from 'gsap/all';
 import { annotate } from 'rough-notation';
 import { WaterBlobComponent } from '../../../../../bubble';
+import { MotionPreferenceService } from '../../../webgl/motion-preference.service';
 import { CanvasControllerComponent } from '../canvascontroller/canvascontroller.component';
 import { FadingDisplacementComponent } from '../displacement/displacement.component';
 import {
@@ -37,11 +38,14 @@ export class LandingComponent {
   @ViewChild('codeQuality') codeQuality?: ElementRef;
   @ViewChild('content') content?: ElementRef;
 
+  constructor(private motion: MotionPreferenceService) {}
+
   scrollToSkills() {
-    console.log('hello');
-    document
-      .getElementById('skills')
-      ?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    document.getElementById('skills')?.scrollIntoView({
+      // Jump straight there when motion is reduced
+      behavior: this.motion.reduced() ? 'auto' : 'smooth',
+      block: 'start',
+    });
     // scrollIntoView()
   }
 
@@ -65,6 +69,7 @@ export class LandingComponent {
       color: '#F49939', // Color of the circle
       iterations,
       padding: 0,
+      animate: !this.motion.reduced(),
     });
 
     // Display the annotation
@@ -84,6 +89,8 @@ export class LandingComponent {
       iterations: 2,
       animationDuration: 1000,
       multiline: true,
+      // Draw the finished annotation straight away
+      animate: !this.motion.reduced(),
     });
 
     // Display the annotation
@@ -102,6 +109,7 @@ export class LandingComponent {
       padding: 2, // Padding around the element
       iterations,
       multiline: true,
+      animate: !this.motion.reduced(),
     });
 
     // Display the annotation
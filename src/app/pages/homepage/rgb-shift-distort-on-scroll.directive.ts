@@ -1,15 +1,17 @@
 // shader-effect.directive.ts
-import { DOCUMENT } from '@angular/common';
 import {
   AfterViewInit,
+  DestroyRef,
   Directive,
   ElementRef,
   Inject,
+  Injector,
   Input,
   NgZone,
-  OnDestroy,
-  OnInit,
+  Optional,
   Renderer2,
+  effect,
+  signal,
 } from '@angular/core';
 import * as THREE from 'three';
 
@@ -17,278 +19,401 @@ import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer
 import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
 import { ShaderPass } from 'three/examples/jsm/postprocessing/ShaderPass.js';
 import { FXAAShader } from 'three/examples/jsm/shaders/FXAAShader.js';
+import {
+  applyWorldRect,
+  elementBoxToWorld,
+  ElementBox,
+  measureElement,
+} from '../../webgl/dom-to-world';
+import {
+  DisposalRegistryService,
+  DisposalScope,
+} from '../../webgl/disposal-registry.service';
+import { DomRasterizer } from '../../webgl/dom-rasterizer';
+import { EffectParams } from '../../webgl/effect-params';
+import { EffectParamsService } from '../../webgl/effect-params.service';
+import {
+  FramePhase,
+  FrameSchedulerService,
+  FrameState,
+} from '../../webgl/frame-scheduler.service';
+import { MotionPreferenceService } from '../../webgl/motion-preference.service';
+import { QualityService, QualitySettings } from '../../webgl/quality.service';
+import { applyUniformValue } from '../../webgl/scroll-progress';
+import {
+  ScrollBinding,
+  ScrollBindingHandle,
+  ScrollProgressService,
+} from '../../webgl/scroll-progress.service';
+import {
+  ScrollContainer,
+  ScrollService,
+  ScrollSource,
+  resolveScrollContainer,
+} from '../../webgl/scroll.service';
+import {
+  MediaTexture,
+  backgroundFit,
+  backgroundImageUrl,
+  imageUrl,
+  isMediaElement,
+  objectFitTransform,
+} from '../../webgl/media-texture';
+import { TextureService } from '../../webgl/texture.service';
+import { VisibilityService } from '../../webgl/visibility.service';
+import {
+  WEBGL_EFFECTS_CONFIG,
+  WebGLEffectsConfig,
+  definedDefaults,
+} from '../../webgl/webgl-effects.config';
+import {
+  RenderViewHandle,
+  WebGLRendererService,
+} from '../../webgl/webgl-renderer.service';
+import {
+  BASIC_SHADER_PRESET,
+  BUILT_IN_SHADER_PRESETS,
+  SHADER_EFFECT_PARAMS,
+  SHADER_PRESETS,
+  ShaderEffectStage,
+  ShaderEffectType,
+  ShaderPreset,
+  ShaderPresetFrame,
+  ShaderTransitionType,
+  composeShaderStages,
+  isShaderTransition,
+  stagePrefix,
+} from './shader-presets';
+
+export {
+  SHADER_EFFECT_PARAMS,
+  ShaderEffectType,
+  ShaderTransitionType,
+} from './shader-presets';
+export type { ShaderEffectStage } from './shader-presets';
+
+// Per-frame easing (at 60fps) of the hover amount and pointer velocity
+const POINTER_EASE = 0.15;
+
+interface ChainStage {
+  preset: ShaderPreset;
+  // The preset's own uniforms under their unprefixed names, plus the shared
+  // ones, as handed to its `update`
+  uniforms: Record<string, THREE.IUniform>;
+  intensity?: number;
+}
 
-// Available shader effects
-export enum ShaderEffectType {
-  CHROMATIC_ABERRATION = 'chromatic_aberration',
-  DISTORTION = 'distortion',
-  PIXELATE = 'pixelate',
-  WAVE = 'wave',
-  RGB_SHIFT = 'rgb_shift',
+// Every directive instance draws into one shared scene, so all images are
+// rendered by a single composer pass on the shared canvas
+interface ShaderEffectLayer {
+  scene: THREE.Scene;
+  camera: THREE.PerspectiveCamera;
+  composer: EffectComposer;
+  view: RenderViewHandle;
+  users: number;
 }
 
-// Shader code
-const SHADER_LIBRARY = {
-  // Vertex shaders
-  vertex: {
-    distortion: `
-      uniform sampler2D uTexture;
-      uniform vec2 uOffset;
-      varying vec2 vUv;
-
-      #define M_PI 3.1415926535897932384626433832795
-
-      vec3 deformationCurve(vec3 position, vec2 uv, vec2 offset) {
-        position.x = position.x + (sin(uv.y * M_PI) * offset.x);
-        position.y = position.y + (sin(uv.x * M_PI) * offset.y);
-        return position;
-      }
+let layer: ShaderEffectLayer | null = null;
 
-      void main() {
-        vUv = uv;
-        vec3 newPosition = deformationCurve(position, uv, uOffset);
-        gl_Position = projectionMatrix * modelViewMatrix * vec4(newPosition, 1.0);
-      }
-    `,
-    wave: `
-      uniform float uTime;
-      uniform float uFrequency;
-      uniform float uAmplitude;
-      varying vec2 vUv;
-
-      void main() {
-        vUv = uv;
-        vec3 pos = position;
-
-        // Apply wave effect
-        float displacement = sin(uFrequency * position.x + uTime) * uAmplitude;
-        pos.y += displacement;
-
-        gl_Position = projectionMatrix * modelViewMatrix * vec4(pos, 1.0);
-      }
-    `,
-    basic: `
-      varying vec2 vUv;
+function acquireLayer(
+  webgl: WebGLRendererService,
+  quality: QualityService
+): ShaderEffectLayer {
+  if (layer) {
+    layer.users++;
+    return layer;
+  }
 
-      void main() {
-        vUv = uv;
-        gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
-      }
-    `,
-  },
-
-  // Fragment shaders
-  fragment: {
-    rgbShift: `
-      uniform sampler2D uTexture;
-      uniform float uAlpha;
-      uniform vec2 uOffset;
-      varying vec2 vUv;
-
-      vec4 rgbShift(sampler2D textureImage, vec2 uv, vec2 offset) {
-        // Sample each channel with different offsets
-        float r = texture2D(textureImage, uv + offset * 1.0).r;
-        float g = texture2D(textureImage, uv).g;
-        float b = texture2D(textureImage, uv - offset * 0.5).b;
-
-        // Get alpha from the center sample
-        float a = texture2D(textureImage, uv).a;
-
-        return vec4(r, g, b, a);
-      }
+  const renderer = webgl.getRenderer();
+  const scene = new THREE.Scene();
 
-      void main() {
-        vec4 color = rgbShift(uTexture, vUv, uOffset);
-        gl_FragColor = vec4(color.rgb, color.a * uAlpha);
-      }
-    `,
-    pixelate: `
-      uniform sampler2D uTexture;
-      uniform float uAlpha;
-      uniform vec2 uResolution;
-      uniform float uPixelSize;
-      varying vec2 vUv;
-
-      void main() {
-        vec2 pixelatedUV = floor(vUv * uResolution / uPixelSize) * uPixelSize / uResolution;
-        vec4 color = texture2D(uTexture, pixelatedUV);
-        gl_FragColor = vec4(color.rgb, color.a * uAlpha);
-      }
-    `,
-    basic: `
-      uniform sampler2D uTexture;
-      uniform float uAlpha;
-      varying vec2 vUv;
-
-      void main() {
-        vec4 color = texture2D(uTexture, vUv);
-        gl_FragColor = vec4(color.rgb, color.a * uAlpha);
+  const fov = 50;
+  const aspectRatio = window.innerWidth / window.innerHeight;
+  const camera = new THREE.PerspectiveCamera(fov, aspectRatio, 0.1, 2000);
+  camera.position.z = 1000;
+
+  let composer: EffectComposer;
+  let fxaaPass: ShaderPass;
+  const size = new THREE.Vector2();
+  let pixelRatio = 0;
+
+  const createComposer = (): void => {
+    composer = new EffectComposer(renderer);
+
+    // RenderPass: Renders the scene normally
+    composer.addPass(new RenderPass(scene, camera));
+
+    // FXAA Pass: Applies FXAA Anti-Aliasing
+    fxaaPass = new ShaderPass(FXAAShader);
+    composer.addPass(fxaaPass);
+
+    // Sized on the next render
+    size.set(0, 0);
+    pixelRatio = 0;
+  };
+  createComposer();
+
+  const view = webgl.register({
+    label: 'ShaderEffect',
+    scene,
+    camera,
+    // The composer writes the whole canvas, so draw it before any other view
+    order: -1,
+    render: (_, rect) => {
+      // The quality tier can change the pixel ratio as well as the size
+      if (
+        size.x !== rect.width ||
+        size.y !== rect.height ||
+        pixelRatio !== renderer.getPixelRatio()
+      ) {
+        size.set(rect.width, rect.height);
+        pixelRatio = renderer.getPixelRatio();
+        composer.setPixelRatio(pixelRatio);
+        composer.setSize(rect.width, rect.height);
+
+        // Set resolution-dependent uniforms
+        fxaaPass.uniforms['resolution'].value.x = 1 / (rect.width * pixelRatio);
+        fxaaPass.uniforms['resolution'].value.y =
+          1 / (rect.height * pixelRatio);
       }
-    `,
-  },
-};
 
-const scene = new THREE.Scene();
+      // Anti-aliasing is the first thing to go on slow devices
+      fxaaPass.enabled = quality.settings().postProcessing;
+
+      composer.render();
+    },
+    onContextRestored: () => {
+      composer.dispose();
+      createComposer();
+      layer!.composer = composer;
+    },
+  });
+
+  layer = { scene, camera, composer: composer!, view, users: 1 };
+  return layer;
+}
+
+function releaseLayer(): void {
+  if (!layer || --layer.users > 0) return;
+
+  layer.view.unregister();
+  layer.composer.dispose();
+  layer.scene.clear();
+  layer = null;
+}
 
+/**
+ * Draws its host through shader effects on the shared canvas, distorted as
+ * the page scrolls. Images follow their srcset or `<picture>` to the variant
+ * the browser picks. Other hosts with a CSS background image are drawn from
+ * that background, which is hidden once loaded. Anything else, such as a
+ * heading, is rasterized into a texture with DomRasterizer; the element stays
+ * in the page for assistive technology, text selection and links, but is made
+ * transparent once its texture is drawn. Inputs not set on an instance take
+ * the app's defaults from provideWebGLEffects().
+ */
 @Directive({
   selector: '[appShaderEffect]',
   standalone: true,
 })
-export class ShaderEffectDirective implements OnInit, AfterViewInit, OnDestroy {
+export class ShaderEffectDirective implements AfterViewInit {
   @Input() effectType: ShaderEffectType | string = ShaderEffectType.RGB_SHIFT;
-  @Input() intensity: number = 0.5;
-  @Input() scrollSensitivity: number = 0.003;
-  @Input() animationSpeed: number = 1.0;
+  // Effects to run in order, e.g. ['wave', { effect: 'rgb_shift',
+  // intensity: 1 }, 'grain']; replaces `effectType` when set
+  @Input() effectChain: (ShaderEffectType | string | ShaderEffectStage)[] = [];
+  // Also react to the pointer: a bulge under the cursor or finger, a ripple
+  // on click or tap, and RGB_SHIFT/DISTORTION following its movement. This
+  // appends the POINTER stage to the chain, so a preset with complete shaders,
+  // which can't be chained, is dropped.
+  @Input() pointerReactive = false;
+  // Scroll container to react to instead of the window, or 'auto' for the
+  // image's nearest scrollable ancestor. Horizontal scrolling bends the
+  // image sideways.
+  @Input() scrollContainer: ScrollContainer = null;
+  @Input() intensity = SHADER_EFFECT_PARAMS.intensity.default;
+  @Input() scrollSensitivity = SHADER_EFFECT_PARAMS.scrollSensitivity.default;
+  @Input() animationSpeed = SHADER_EFFECT_PARAMS.animationSpeed.default;
+  // Largest block size, in screen pixels, for PIXELATE
+  @Input() pixelSize = SHADER_EFFECT_PARAMS.pixelSize.default;
+  // Waves across the image for WAVE
+  @Input() frequency = SHADER_EFFECT_PARAMS.frequency.default;
+  // Largest WAVE displacement as a fraction of the image height
+  @Input() amplitude = SHADER_EFFECT_PARAMS.amplitude.default;
+  // How an `<img>` moves to its next picture when given another src or
+  // srcset. Chained effects only: a preset with complete shaders swaps the
+  // picture at once, with a warning.
+  @Input() transition: ShaderTransitionType | string =
+    ShaderTransitionType.DISPLACEMENT;
+  // Seconds the transition takes
+  @Input() transitionDuration = SHADER_EFFECT_PARAMS.transitionDuration.default;
+  // Displacement map for the DISPLACEMENT transition
+  @Input() transitionMap = 'displacement.jpg';
+  // Uniforms or parameters driven by scroll progress rather than velocity,
+  // e.g. [{ uniform: 'uAlpha', keyframes: [{ progress: 0, value: 0 },
+  // { progress: 0.3, value: 1 }] }]. Bound uniforms win over the presets'.
+  @Input() scrollBindings: ScrollBinding[] = [];
+
+  params!: EffectParams<typeof SHADER_EFFECT_PARAMS>;
 
-  private canvas: HTMLElement;
-  private canvasContainer: HTMLElement | null = null;
-  private scene!: THREE.Scene;
   private camera!: THREE.PerspectiveCamera;
-  private renderer!: THREE.WebGLRenderer;
+  private scrollSource!: ScrollSource;
+  private scrollBound!: ScrollBindingHandle;
+  private media!: MediaTexture;
+  // Draws hosts that aren't media into a canvas
+  private rasterizer: DomRasterizer | null = null;
+  // Whether the host's picture is its CSS background-image
+  private background = false;
+  private backgroundHidden = false;
+  // The host's own inline styles, put back over those that hide it
+  private hostStyle = { opacity: '', backgroundImage: '' };
+  // The host's CSS object-fit or background-size, reproduced on the mesh
+  private objectFit = 'fill';
   private mesh!: THREE.Mesh;
   private uniforms: any;
-  private animationFrameId: number | null = null;
-  private scrollListener!: Function;
-  private resizeListener!: Function;
-  private targetScrollY: number = 0;
-  private currentScrollY: number = 0;
-  private ease: number = 0.075;
-  private clock = new THREE.Clock();
-  private composer: any;
+  private stages: ChainStage[] = [];
+  // The plane's segments at full quality, from the chain's presets
+  private segments = 8;
+  private transitionType = ShaderTransitionType.NONE;
+  // Set when a complete preset can't play `transition`; warned about once
+  private transitionUnsupported = false;
+  // See sourceKey(); a change starts a transition
+  private sourceKey = '';
+  // Linear 0..1, eased into uProgress
+  private transitionProgress = 1;
+  // Last pointer position over the image in UV space
+  private pointer = new THREE.Vector2(0.5, 0.5);
+  // The rest of the pointer state is only tracked when pointerReactive
+  private lastPointer = new THREE.Vector2(0.5, 0.5);
+  private pointerVelocity = new THREE.Vector2();
+  private hovering = false;
+  private hover = 0;
+  private rippleOrigin = new THREE.Vector2(0.5, 0.5);
+  private rippleAge = -1;
+  private imageBox: ElementBox | null = null;
+  private canvasRect: DOMRect | null = null;
+  // Effect time in seconds; frozen while motion is reduced
+  private time = 0;
+  // Everything below is released when the directive is destroyed
+  private readonly resources: DisposalScope;
 
   constructor(
     private el: ElementRef,
     private renderer2: Renderer2,
     private ngZone: NgZone,
-    @Inject(DOCUMENT) private document: Document
-  ) {}
-
-  ngOnInit(): void {
-    // Create canvas container if it doesn't exist
-    this.createCanvasContainer();
+    private webgl: WebGLRendererService,
+    private scheduler: FrameSchedulerService,
+    private scroll: ScrollService,
+    private textures: TextureService,
+    private visibility: VisibilityService,
+    private motion: MotionPreferenceService,
+    private quality: QualityService,
+    private effectParams: EffectParamsService,
+    private scrollProgress: ScrollProgressService,
+    private injector: Injector,
+    @Optional()
+    @Inject(SHADER_PRESETS)
+    private presets: ShaderPreset[] | null,
+    @Inject(WEBGL_EFFECTS_CONFIG) config: WebGLEffectsConfig,
+    disposal: DisposalRegistryService,
+    destroyRef: DestroyRef
+  ) {
+    this.resources = disposal.createScope(this, destroyRef);
+    // Bound inputs are set after the constructor, so they override these
+    Object.assign(this, definedDefaults(config.shaderEffect));
   }
 
   ngAfterViewInit(): void {
-    // Wait for the image to load before setting up the effect
-    const img = this.el.nativeElement as HTMLImageElement;
+    const element = this.el.nativeElement as Element;
 
-    if (img.complete) {
-      this.setupShaderEffect();
-    } else {
-      img.addEventListener('load', () => {
-        this.setupShaderEffect();
-      });
-    }
-  }
-
-  ngOnDestroy(): void {
-    console.log('destroy');
-    // Clean up resources
-    if (this.animationFrameId !== null) {
-      cancelAnimationFrame(this.animationFrameId);
+    // Without WebGL the element itself stands in for the effect
+    if (!this.webgl.available) {
+      this.revealImage();
+      return;
     }
 
-    if (this.scrollListener) {
-      this.scrollListener();
-    }
-
-    if (this.resizeListener) {
-      this.resizeListener();
-    }
-
-    // Dispose Three.js resources
-    if (this.mesh) {
-      scene.remove(this.mesh);
-      this.mesh.geometry.dispose();
-      if (this.mesh.material instanceof THREE.Material) {
-        this.mesh.material.dispose();
-      }
-    }
-
-    if (this.renderer) {
-      this.renderer.dispose();
+    // Wait for an image to load before setting up the effect; videos show
+    // their poster meanwhile
+    if (element instanceof HTMLImageElement && !element.complete) {
+      this.resources.listen(element, 'load', () => this.setupShaderEffect(), {
+        once: true,
+      });
+    } else {
+      this.setupShaderEffect();
     }
   }
 
-  private createCanvasContainer(): void {
-    // Check if container already exists
-    let container = this.document.getElementById('shader-effect-container');
-
-    if (!container) {
-      // Create a fixed container for all canvases
-      container = this.renderer2.createElement('div');
-      this.renderer2.setAttribute(container, 'id', 'shader-effect-container');
-      this.renderer2.setStyle(container, 'position', 'fixed');
-      this.renderer2.setStyle(container, 'top', '0');
-      this.renderer2.setStyle(container, 'left', '0');
-      this.renderer2.setStyle(container, 'width', '100%');
-      this.renderer2.setStyle(container, 'height', '100%');
-      this.renderer2.setStyle(container, 'pointer-events', 'none');
-      this.renderer2.setStyle(container, 'z-index', '1001');
-
-      this.renderer2.appendChild(this.document.body, container);
-    }
-
-    this.canvasContainer = container;
+  // Undo whatever the host uses to hide the image behind its mesh
+  private revealImage(): void {
+    const img = this.el.nativeElement as HTMLImageElement;
+    this.renderer2.setStyle(img, 'opacity', '1');
+    this.renderer2.setStyle(img, 'visibility', 'visible');
   }
 
   private setupShaderEffect(): void {
-    // Create scene
-
-    // Create camera
-    const fov = 50;
-    const aspectRatio = window.innerWidth / window.innerHeight;
-    this.camera = new THREE.PerspectiveCamera(fov, aspectRatio, 0.1, 2000);
-    this.camera.position.z = 1000;
-
-    // Create canvas
-    this.canvas = this.document.getElementsByTagName('canvas')[0];
-    console.log(this.canvas);
-    this.renderer2.setAttribute(
-      this.canvas,
-      'id',
-      'shader-canvas-' + Math.random().toString(36).substr(2, 9)
+    // Join the shared scene on the shared canvas
+    const layer = acquireLayer(this.webgl, this.quality);
+    this.resources.add(releaseLayer);
+    this.camera = layer.camera;
+
+    // Start from the inputs; the debug overlay can tweak them from here
+    const element = this.el.nativeElement as HTMLElement;
+    this.params = new EffectParams(
+      `ShaderEffect ${elementName(element)}`,
+      SHADER_EFFECT_PARAMS,
+      {
+        intensity: this.intensity,
+        scrollSensitivity: this.scrollSensitivity,
+        animationSpeed: this.animationSpeed,
+        pixelSize: this.pixelSize,
+        frequency: this.frequency,
+        amplitude: this.amplitude,
+        transitionDuration: this.transitionDuration,
+      }
     );
+    const published = this.effectParams.publish(this.params);
+    this.resources.add(() => published.unpublish());
 
-    // Create renderer with improved settings
-    this.renderer = new THREE.WebGLRenderer({
-      canvas: this.canvas,
-      alpha: true,
-      antialias: true,
-      powerPreference: 'high-performance',
-      preserveDrawingBuffer: false,
-    });
-
-    // Configure renderer for best quality
-    this.renderer.setSize(window.innerWidth, window.innerHeight);
-    this.renderer.setPixelRatio(window.devicePixelRatio);
-    this.renderer.outputColorSpace = THREE.SRGBColorSpace;
-
-    this.composer = new EffectComposer(this.renderer);
+    const scroll = this.scroll.observe(this.scrollContainer, element);
+    this.scrollSource = scroll.source;
+    this.resources.add(() => scroll.release());
 
-    // RenderPass: Renders the scene normally
-    const renderPass = new RenderPass(scene, this.camera);
-    this.composer.addPass(renderPass);
-
-    // FXAA Pass: Applies FXAA Anti-Aliasing
-    const fxaaPass = new ShaderPass(FXAAShader);
-
-    // Set resolution-dependent uniforms
-    const pixelRatio = this.renderer.getPixelRatio();
-    fxaaPass.uniforms['resolution'].value.x =
-      1 / (window.innerWidth * pixelRatio);
-    fxaaPass.uniforms['resolution'].value.y =
-      1 / (window.innerHeight * pixelRatio);
-
-    this.composer.addPass(fxaaPass);
+    // Create mesh with shader material
+    this.createMesh(layer);
 
-    // Add canvas to container
-    if (this.canvasContainer) {
-      this.renderer2.appendChild(this.canvasContainer, this.canvas);
-    }
+    // The tier can change the plane's detail after the mesh is built
+    const quality = this.quality.settings$.subscribe((settings) =>
+      this.applyQuality(settings)
+    );
+    this.resources.add(() => quality.unsubscribe());
+
+    this.scrollBound = this.scrollProgress.bind(this.scrollBindings, {
+      host: element,
+      scroller: resolveScrollContainer(this.scrollContainer, element),
+      params: this.params,
+      setUniform: (name, value) =>
+        applyUniformValue(this.uniforms[name], value),
+    });
+    this.resources.add(() => this.scrollBound.release());
 
-    // Create mesh with shader material
-    this.createMesh();
+    // Play and upload media only while it can be seen and may move
+    const visible = signal<boolean | null>(null);
+    const visibility = this.visibility.watch(element, (value) =>
+      visible.set(value)
+    );
+    const activity = effect(
+      () => {
+        // Unknown until the first visibility report
+        const shown = visible();
+        if (shown !== null) {
+          this.media.setActive(shown && !this.motion.reduced());
+        }
+      },
+      { injector: this.injector }
+    );
+    this.resources.add(() => {
+      visibility.unobserve();
+      activity.destroy();
+    });
 
     // Set up event listeners
     this.setupEventListeners();
@@ -298,74 +423,109 @@ export class ShaderEffectDirective implements OnInit, AfterViewInit, OnDestroy {
   }
 
   // Update the createMesh method for improved texture quality
-  private createMesh(): void {
-    const img = this.el.nativeElement as HTMLImageElement;
-
-    // Create a higher resolution geometry for smoother distortion
-    const geometry = new THREE.PlaneGeometry(1, 1, 8, 8); // Increased segments for smoother distortion
-
-    // Load the image into a texture with improved settings
-    const textureLoader = new THREE.TextureLoader();
-
-    // Enable CORS if needed for cross-origin images
-    textureLoader.crossOrigin = 'anonymous';
-
-    const texture = textureLoader.load(img.src, (loadedTexture) => {
-      loadedTexture.needsUpdate = true;
-      loadedTexture.minFilter = THREE.LinearMipmapLinearFilter; // Enhanced filtering
-      loadedTexture.magFilter = THREE.LinearFilter;
+  private createMesh(layer: ShaderEffectLayer): void {
+    const element = this.el.nativeElement as HTMLElement;
+    const { opacity, backgroundImage } = element.style;
+    this.hostStyle = { opacity, backgroundImage };
+    this.resources.add(() => Object.assign(element.style, this.hostStyle));
+
+    this.background =
+      !isMediaElement(element) && backgroundImageUrl(element) !== null;
+    this.objectFit = this.background
+      ? backgroundFit(element)
+      : getComputedStyle(element).objectFit;
+
+    const chain = this.resolveChain();
+    this.segments = Math.max(
+      ...chain.map(({ preset }) => preset.segments ?? 8)
+    );
+    const detail = this.detailFor(this.quality.settings());
+    const geometry = new THREE.PlaneGeometry(1, 1, detail, detail);
 
-      // Enable anisotropic filtering with a softer approach
-      const anisotropy = Math.min(
-        this.renderer.capabilities.getMaxAnisotropy(),
+    // Enable anisotropic filtering for sharper textures at angles
+    const textureOptions = {
+      anisotropy: Math.min(
+        this.webgl.getRenderer().capabilities.getMaxAnisotropy(),
         16
+      ),
+    };
+
+    // Anything but media and backgrounds is drawn into a canvas, uploaded
+    // only when redrawn
+    let source: Element = element;
+    if (!isMediaElement(element) && !this.background) {
+      this.rasterizer = this.resources.track(
+        new DomRasterizer(element, {
+          pixelRatio: Math.min(
+            window.devicePixelRatio,
+            this.quality.settings().maxPixelRatio
+          ),
+          onRaster: () => this.media.invalidate(),
+        })
       );
-      loadedTexture.anisotropy = anisotropy;
+      source = this.rasterizer.canvas;
+    }
 
+    // Images are shared with any other effect showing them; no mipmaps for
+    // a sharper image
+    this.media = this.resources.track(
+      new MediaTexture(source, this.textures, {
+        ...textureOptions,
+        manualUpdate: this.rasterizer !== null,
+      })
+    );
+    this.sourceKey = sourceKey(element);
+    this.media.ready.then(() => {
+      if (this.resources.disposed) return;
+      if (this.background) this.hideBackground();
       this.updateMeshPosition();
-
-      this.renderer.render(scene, this.camera);
     });
 
-    // Improve texture filtering
-    texture.minFilter = THREE.LinearFilter;
-    texture.magFilter = THREE.LinearFilter;
-
-    // Enable anisotropic filtering for sharper textures at angles
-    const maxAnisotropy = this.renderer.capabilities.getMaxAnisotropy();
-    texture.anisotropy = maxAnisotropy;
-
-    // Disable mipmapping for sharper image
-    texture.generateMipmaps = false;
-
-    // Ensure proper format
-    texture.format = THREE.RGBAFormat;
-
-    // Set proper texture encoding for accurate colors
-    texture.colorSpace = THREE.SRGBColorSpace;
-
-    // Make sure premultiplied alpha is handled correctly
-    texture.premultiplyAlpha = false;
-
-    // Select shaders based on effect type
-    const { vertexShader, fragmentShader } = this.getShaders();
-
-    // Create uniforms
-    this.uniforms = {
-      uTexture: { value: texture },
+    // Uniforms every preset gets
+    const shared: Record<string, THREE.IUniform> = {
+      uTexture: { value: this.media.texture },
+      // Crops or letterboxes the texture as object-fit does
+      uUvScale: { value: new THREE.Vector2(1, 1) },
+      uUvOffset: { value: new THREE.Vector2(0, 0) },
       uAlpha: { value: 1.0 },
-      uOffset: { value: new THREE.Vector2(0.0, 0.0) },
       uTime: { value: 0.0 },
-      uResolution: {
-        value: new THREE.Vector2(
-          img.naturalWidth || img.width,
-          img.naturalHeight || img.height
-        ),
-      },
-      uPixelSize: { value: 8.0 },
-      uFrequency: { value: 10.0 },
-      uAmplitude: { value: 0.1 },
+      // The image's size on screen in device pixels, set with its position
+      uResolution: { value: new THREE.Vector2(1, 1) },
+      uPointer: { value: this.pointer },
+      uPointerVelocity: { value: this.pointerVelocity },
+      // Set while the previous source transitions out
+      uPrevTexture: { value: null },
+      uPrevUvScale: { value: new THREE.Vector2(1, 1) },
+      uPrevUvOffset: { value: new THREE.Vector2(0, 0) },
+      uProgress: { value: 1.0 },
+      uTransitionMap: { value: null },
     };
+    this.uniforms = { ...shared };
+
+    // A lone preset with complete shaders is used as it is; anything else is
+    // composed from stages, whose uniforms are prefixed with their position
+    const [first] = chain;
+    const complete = chain.length === 1 && first.preset.vertexShader;
+    this.stages = chain.map(({ preset, intensity }, index) => {
+      const own = preset.uniforms?.() ?? {};
+      const prefix = complete ? '' : stagePrefix(index);
+      for (const [name, uniform] of Object.entries(own)) {
+        this.uniforms[prefix + name] = uniform;
+      }
+      return { preset, intensity, uniforms: { ...shared, ...own } };
+    });
+    if (complete) {
+      this.transitionUnsupported =
+        this.transition !== ShaderTransitionType.NONE;
+    } else {
+      this.transitionType = this.resolveTransition();
+    }
+    const { vertexShader, fragmentShader } = complete
+      ? first.preset
+      : composeShaderStages(
+          chain.map(({ preset }) => preset),
+          this.transitionType
+        );
 
     // Create material with improved quality settings
     const material = new THREE.ShaderMaterial({
@@ -384,184 +544,397 @@ export class ShaderEffectDirective implements OnInit, AfterViewInit, OnDestroy {
     });
 
     // Create mesh
-    this.mesh = new THREE.Mesh(geometry, material);
-    console.log(this.mesh);
-    scene.add(this.mesh);
+    // Tracking removes it from the shared scene and disposes its geometry
+    // and material on destroy
+    this.mesh = this.resources.track(new THREE.Mesh(geometry, material));
+    layer.scene.add(this.mesh);
 
     // Position and scale the mesh to match the image
     this.updateMeshPosition();
+
+    // The element shows until its texture does, or instead of it if the
+    // browser can't rasterize it
+    this.rasterizer?.ready.then(
+      () => {
+        if (!this.resources.disposed) {
+          this.renderer2.setStyle(element, 'opacity', '0');
+        }
+      },
+      (error) => {
+        if (this.resources.disposed) return;
+        console.warn('ShaderEffectDirective: cannot rasterize element', error);
+        this.mesh.visible = false;
+        this.revealImage();
+      }
+    );
   }
 
-  private getShaders(): { vertexShader: string; fragmentShader: string } {
-    let vertexShader = SHADER_LIBRARY.vertex.basic;
-    let fragmentShader = SHADER_LIBRARY.fragment.basic;
-
-    switch (this.effectType) {
-      case ShaderEffectType.CHROMATIC_ABERRATION:
-      case ShaderEffectType.RGB_SHIFT:
-        vertexShader = SHADER_LIBRARY.vertex.distortion;
-        fragmentShader = SHADER_LIBRARY.fragment.rgbShift;
-        break;
-      case ShaderEffectType.DISTORTION:
-        vertexShader = SHADER_LIBRARY.vertex.distortion;
-        fragmentShader = SHADER_LIBRARY.fragment.basic;
-        break;
-      case ShaderEffectType.PIXELATE:
-        vertexShader = SHADER_LIBRARY.vertex.basic;
-        fragmentShader = SHADER_LIBRARY.fragment.pixelate;
-        break;
-      case ShaderEffectType.WAVE:
-        vertexShader = SHADER_LIBRARY.vertex.wave;
-        fragmentShader = SHADER_LIBRARY.fragment.basic;
-        break;
-    }
+  // Fewer segments on slower devices, but enough for the distortion curve
+  private detailFor({ geometryDetail }: QualitySettings): number {
+    return Math.max(
+      Math.min(this.segments, 8),
+      Math.round(this.segments * geometryDetail)
+    );
+  }
+
+  private applyQuality(settings: QualitySettings): void {
+    const previous = this.mesh.geometry as THREE.PlaneGeometry;
+    const detail = this.detailFor(settings);
+    if (previous.parameters.widthSegments === detail) return;
 
-    return { vertexShader, fragmentShader };
+    this.mesh.geometry = new THREE.PlaneGeometry(1, 1, detail, detail);
+    previous.dispose();
   }
 
-  private setupEventListeners(): void {
-    this.ngZone.runOutsideAngular(() => {
-      // Listen for scroll events
-      this.scrollListener = this.renderer2.listen('window', 'scroll', () => {
-        this.targetScrollY = window.scrollY;
-      });
+  private resolveChain(): { preset: ShaderPreset; intensity?: number }[] {
+    const chain = this.effectChain.length
+      ? [...this.effectChain]
+      : [this.effectType];
+    if (this.pointerReactive) chain.push(ShaderEffectType.POINTER);
+
+    const stages = chain.map((entry) => {
+      const stage: ShaderEffectStage =
+        typeof entry === 'string' ? { effect: entry } : entry;
+      return {
+        preset: this.findPreset(stage.effect),
+        intensity: stage.intensity,
+      };
+    });
+    if (stages.length === 1) return stages;
 
-      // Listen for resize events
-      this.resizeListener = this.renderer2.listen('window', 'resize', () => {
-        this.onResize();
-      });
+    // Complete shaders can't be combined with anything else
+    return stages.filter(({ preset }) => {
+      if (!preset.vertexShader) return true;
+      console.warn(
+        `ShaderEffectDirective: "${preset.name}" has no stages to chain`
+      );
+      return false;
     });
   }
 
-  private onResize(): void {
-    if (!this.renderer || !this.camera) return;
+  private resolveTransition(): ShaderTransitionType {
+    if (isShaderTransition(this.transition)) return this.transition;
 
-    // Update renderer size
-    this.renderer.setSize(window.innerWidth, window.innerHeight);
+    console.warn(
+      `ShaderEffectDirective: unknown transition "${this.transition}"`
+    );
+    return ShaderTransitionType.NONE;
+  }
 
-    // Update camera aspect ratio
-    this.camera.aspect = window.innerWidth / window.innerHeight;
-    this.camera.updateProjectionMatrix();
+  // Presets registered by the app win over the built-in ones
+  private findPreset(name: string): ShaderPreset {
+    const preset = [...(this.presets ?? []), ...BUILT_IN_SHADER_PRESETS].find(
+      (preset) => preset.name === name
+    );
+    if (!preset) {
+      console.warn(`ShaderEffectDirective: unknown effectType "${name}"`);
+    }
+    return preset ?? BASIC_SHADER_PRESET;
+  }
 
-    // Update mesh position and size
-    this.updateMeshPosition();
+  private setupEventListeners(): void {
+    this.ngZone.runOutsideAngular(() => {
+      // Listen for resize events
+      this.resources.add(
+        this.renderer2.listen('window', 'resize', () => {
+          this.onResize();
+        })
+      );
+
+      // Presets can follow the pointer; tracked in the image's UV space
+      this.resources.listen(
+        window,
+        'pointermove',
+        (event) => {
+          const inside = this.trackPointer(event, this.pointer);
+          if (inside !== null) this.hovering = inside;
+        },
+        { passive: true }
+      );
+
+      // Background image-sets pick their image by pixel ratio, e.g. when the
+      // window moves to another screen; `<img>` srcsets follow by themselves
+      if (this.background) this.watchPixelRatio();
+
+      if (!this.pointerReactive) return;
+
+      this.resources.listen(
+        window,
+        'pointerdown',
+        (event) => {
+          if (!this.trackPointer(event, this.rippleOrigin)) return;
+          // A tap is the first a touch screen hears of the pointer
+          this.pointer.copy(this.rippleOrigin);
+          this.lastPointer.copy(this.pointer);
+          this.hovering = true;
+          this.rippleAge = 0;
+        },
+        { passive: true }
+      );
+      // A lifted finger no longer hovers; nor does a mouse leaving the window
+      const leave = (event: PointerEvent) => {
+        if (event.pointerType === 'touch' || !event.relatedTarget) {
+          this.hovering = false;
+        }
+      };
+      this.resources.listen(window, 'pointerup', leave, { passive: true });
+      this.resources.listen(window, 'pointercancel', leave, { passive: true });
+      this.resources.listen(window, 'pointerout', leave, { passive: true });
+    });
   }
 
-  // Final fix for the updateMeshPosition method
-  private updateMeshPosition(): void {
-    if (!this.mesh) return;
+  // Writes the event's position over the image, in UV space, to `target`;
+  // returns whether it is inside the image, or null before it is measured
+  private trackPointer(
+    event: PointerEvent,
+    target: THREE.Vector2
+  ): boolean | null {
+    const box = this.imageBox;
+    if (!box?.width || !box.height) return null;
+
+    target.set(
+      (event.clientX - box.centerX) / box.width + 0.5,
+      0.5 - (event.clientY - box.centerY) / box.height
+    );
+    return target.x >= 0 && target.x <= 1 && target.y >= 0 && target.y <= 1;
+  }
 
-    const img = this.el.nativeElement as HTMLImageElement;
-    const rect = img.getBoundingClientRect();
-
-    // Get the canvas element
-    const canvas = this.document.getElementById('canvas');
-    const canvasRect = canvas?.getBoundingClientRect() || {
-      left: 0,
-      top: 0,
-      width: window.innerWidth,
-      height: window.innerHeight,
-    };
+  // Eases the hover amount and pointer velocity towards this frame's input
+  private updatePointer(delta: number, reduced: boolean): void {
+    if (!this.pointerReactive || reduced || delta <= 0) {
+      this.pointerVelocity.set(0, 0);
+      this.hover = 0;
+      this.rippleAge = -1;
+      this.lastPointer.copy(this.pointer);
+      return;
+    }
 
-    // Calculate position relative to the canvas
-    const canvasCenterX = canvasRect.left + canvasRect.width / 2;
-    const canvasCenterY = canvasRect.top + canvasRect.height / 2;
+    const ease = 1 - Math.pow(1 - POINTER_EASE, delta * 60);
+    const moved = this.pointer
+      .clone()
+      .sub(this.lastPointer)
+      .divideScalar(delta);
+    this.pointerVelocity.lerp(moved, ease);
+    // Settle exactly, as the scroll velocity does
+    if (this.pointerVelocity.lengthSq() < 1e-6) this.pointerVelocity.set(0, 0);
+    this.lastPointer.copy(this.pointer);
+
+    this.hover += ((this.hovering ? 1 : 0) - this.hover) * ease;
+    if (this.rippleAge >= 0) this.rippleAge += delta;
+  }
 
-    // Calculate the center position of the image
-    const imageCenterX = rect.left + rect.width / 2;
-    const imageCenterY = rect.top + rect.height / 2;
+  private updateTexture(delta: number, reduced: boolean): void {
+    const uniforms = this.uniforms;
+    const texture = this.media.texture;
+    if (texture !== uniforms.uTexture.value) {
+      const key = sourceKey(this.el.nativeElement);
+      if (key !== this.sourceKey) this.startTransition();
+      this.sourceKey = key;
+      uniforms.uTexture.value = texture;
+    }
 
-    // Calculate the offset from the canvas center
-    const x = imageCenterX - canvasCenterX;
+    // Reduced motion swaps straight away
+    const duration = this.params.values.transitionDuration;
+    this.transitionProgress =
+      reduced || duration <= 0
+        ? 1
+        : Math.min(this.transitionProgress + delta / duration, 1);
+    uniforms.uProgress.value = THREE.MathUtils.smoothstep(
+      this.transitionProgress,
+      0,
+      1
+    );
+  }
 
-    // Y is inverted in Three.js compared to DOM
-    const y = -(imageCenterY - canvasCenterY);
+  // Keeps the outgoing texture, and its object-fit, for the transition
+  private startTransition(): void {
+    if (this.transitionUnsupported) {
+      this.transitionUnsupported = false;
+      console.warn(
+        `ShaderEffectDirective: "${this.stages[0].preset.name}" has complete ` +
+          `shaders, so the "${this.transition}" transition is skipped`
+      );
+    }
+    if (this.transitionType === ShaderTransitionType.NONE) return;
+
+    const uniforms = this.uniforms;
+    uniforms.uPrevTexture.value = uniforms.uTexture.value;
+    uniforms.uPrevUvScale.value.copy(uniforms.uUvScale.value);
+    uniforms.uPrevUvOffset.value.copy(uniforms.uUvOffset.value);
+    if (this.transitionType === ShaderTransitionType.DISPLACEMENT) {
+      // Loaded when first needed; shared with every other effect
+      uniforms.uTransitionMap.value ??= this.textures.load(this.transitionMap);
+    }
+    this.transitionProgress = 0;
+  }
 
-    // Get the WebGL viewport scaling
-    // NOTE: This is the key fix - we need to account for THREE.js scaling of the coordinate space
-    const frustumHeight =
-      2 *
-      Math.tan(THREE.MathUtils.degToRad(this.camera.fov / 2)) *
-      this.camera.position.z;
-    const frustumWidth = frustumHeight * this.camera.aspect;
+  private onResize(): void {
+    if (!this.camera) return;
 
-    // Calculate scale factors to convert from pixel units to Three.js units
-    const scaleX = frustumWidth / canvasRect.width;
-    const scaleY = frustumHeight / canvasRect.height;
+    this.refreshSource();
 
-    // Apply scale to convert from pixel coordinates to Three.js coordinates
-    const xWorld = x * scaleX;
-    const yWorld = y * scaleY;
+    // Update camera aspect ratio
+    this.camera.aspect = window.innerWidth / window.innerHeight;
+    this.camera.updateProjectionMatrix();
 
-    // Position mesh in Three.js world space
-    this.mesh.position.set(xWorld, yWorld, 0);
+    // Update mesh position and size
+    this.updateMeshPosition();
+  }
 
-    // Scale mesh to match image dimensions in world space
-    this.mesh.scale.set(rect.width * scaleX, rect.height * scaleY, 1);
+  // Follows the host to its current object-fit, or its background to the
+  // image for the current breakpoint and pixel ratio
+  private refreshSource(): void {
+    const element = this.el.nativeElement as HTMLElement;
+    if (!this.background) {
+      this.objectFit = getComputedStyle(element).objectFit;
+      return;
+    }
+
+    // Read the background from under the style that hides it
+    element.style.backgroundImage = this.hostStyle.backgroundImage;
+    this.objectFit = backgroundFit(element);
+    this.media.refresh();
+    if (this.backgroundHidden) this.hideBackground();
   }
 
-  private startAnimationLoop(): void {
-    this.ngZone.runOutsideAngular(() => {
-      this.animate();
-    });
+  private hideBackground(): void {
+    this.backgroundHidden = true;
+    this.renderer2.setStyle(this.el.nativeElement, 'background-image', 'none');
   }
 
-  private lerp(start: number, end: number, t: number): number {
-    return start * (1 - t) + end * t;
+  // Refreshes the background whenever the device pixel ratio changes
+  private watchPixelRatio(): void {
+    const query = matchMedia(`(resolution: ${window.devicePixelRatio}dppx)`);
+    this.resources.listen(
+      query,
+      'change',
+      () => {
+        this.refreshSource();
+        this.watchPixelRatio();
+      },
+      { once: true }
+    );
   }
 
-  // Updated animate method to ensure no effect when not scrolling
-  private animate = (): void => {
-    // Calculate previous scroll position for velocity calculation
-    const prevScrollY = this.currentScrollY;
+  private updateMeshPosition(): void {
+    if (!this.mesh) return;
 
-    // Smooth scrolling
-    this.currentScrollY = this.lerp(
-      this.currentScrollY,
-      this.targetScrollY,
-      this.ease
-    );
+    // Prefer the measurements taken in this frame's read phase
+    const box = this.imageBox ?? measureElement(this.el.nativeElement);
+    const canvasRect =
+      this.canvasRect ?? this.webgl.domElement.getBoundingClientRect();
 
-    // Calculate scroll velocity - the difference between current and previous positions
-    const scrollVelocity =
-      -(this.targetScrollY - this.currentScrollY) * this.scrollSensitivity;
+    // Position and scale the unit plane over the image in world space
+    const world = elementBoxToWorld(box, canvasRect, this.camera, {
+      devicePixelRatio: window.devicePixelRatio,
+    });
+    applyWorldRect(this.mesh, world);
 
-    // Calculate scroll velocity magnitude - how fast we're scrolling
-    const velocityMagnitude = Math.abs(
-      this.targetScrollY - this.currentScrollY
+    this.uniforms.uResolution.value.set(
+      Math.max(box.width * window.devicePixelRatio, 1),
+      Math.max(box.height * window.devicePixelRatio, 1)
     );
 
-    // Check if we're "effectively" stopped scrolling (very small velocity)
-    const isScrolling = velocityMagnitude > 0.01;
+    // Until the media's size is known it fills the box
+    objectFitTransform(this.objectFit, box, this.media.size ?? box, {
+      scale: this.uniforms.uUvScale.value,
+      offset: this.uniforms.uUvOffset.value,
+    });
+  }
 
-    // Only apply chromatic aberration when scrolling
-    if (this.uniforms.uOffset !== undefined) {
-      if (isScrolling) {
-        // When scrolling, apply the effect based on scroll velocity
-        this.uniforms.uOffset.value.set(
-          0.0, // No horizontal effect by default
-          scrollVelocity * this.intensity // Vertical effect based on scroll velocity
-        );
-      } else {
-        // When not scrolling, set the offset to zero to disable the effect
-        this.uniforms.uOffset.value.set(0.0, 0.0);
-      }
-    }
+  private startAnimationLoop(): void {
+    [
+      // Measure before any effect writes to the DOM this frame
+      this.scheduler.subscribe(() => {
+        this.imageBox = measureElement(this.el.nativeElement);
+        this.canvasRect = this.webgl.domElement.getBoundingClientRect();
+      }, FramePhase.READ),
+      this.scheduler.subscribe(this.animate, FramePhase.UPDATE),
+    ].forEach((subscription) =>
+      this.resources.add(() => subscription.unsubscribe())
+    );
+  }
 
-    // Update time uniform for animations (if needed)
-    if (this.uniforms.uTime !== undefined) {
-      this.uniforms.uTime.value =
-        this.clock.getElapsedTime() * this.animationSpeed;
+  // Every effect is at rest, showing the plain image, when not scrolling
+  private animate = ({ delta }: FrameState): void => {
+    const params = this.params.values;
+
+    // With reduced motion the image stays a static, undistorted frame
+    const reduced = this.motion.reduced();
+    if (!reduced) this.time += delta;
+
+    // Shared smoothed scroll velocity; exactly 0 once scrolling has settled
+    const scrollVelocity = reduced
+      ? 0
+      : -this.scrollSource.velocity() * params.scrollSensitivity;
+    const scrollVelocityX = reduced
+      ? 0
+      : -this.scrollSource.velocityX() * params.scrollSensitivity;
+    const time = this.time * params.animationSpeed;
+
+    this.updatePointer(delta, reduced);
+
+    // A video switches from its poster once it has a frame, and a new
+    // source transitions in
+    this.updateTexture(delta, reduced);
+    this.media.update();
+
+    this.uniforms.uTime.value = time;
+    const frame: ShaderPresetFrame = {
+      delta,
+      time,
+      velocity: scrollVelocity,
+      velocityX: scrollVelocityX,
+      // How hard the page is being scrolled, whichever the direction
+      amount: Math.min(Math.hypot(scrollVelocity, scrollVelocityX), 1),
+      pointer: this.pointer,
+      pointerVelocity: this.pointerVelocity,
+      hover: this.hover,
+      rippleOrigin: this.rippleOrigin,
+      rippleAge: this.rippleAge,
+      params,
+    };
+    for (const { preset, uniforms, intensity } of this.stages) {
+      preset.update?.(
+        uniforms,
+        intensity === undefined
+          ? frame
+          : { ...frame, params: { ...params, intensity } }
+      );
     }
+    this.scrollBound.apply();
 
     // Update mesh position to follow the image during scroll
     this.updateMeshPosition();
+  };
+}
 
-    // Render scene
-    // this.renderer.render(scene, this.camera);
-    this.composer.render();
+// Changes when the host is given another picture, but not when it moves to
+// another variant of the same one or a video to its first frame
+function sourceKey(element: Element): string {
+  if (element instanceof HTMLImageElement) {
+    return `${element.src} ${element.srcset}`;
+  }
+  if (element instanceof HTMLVideoElement) {
+    return element.currentSrc || element.src;
+  }
+  return '';
+}
 
-    // Continue animation loop
-    this.animationFrameId = requestAnimationFrame(this.animate);
-  };
+// For the debug overlay: the file name of an image, video or background, or
+// the first class of anything else
+function elementName(element: Element): string {
+  const src =
+    element instanceof HTMLVideoElement
+      ? element.currentSrc || element.src
+      : element instanceof HTMLImageElement
+        ? imageUrl(element)
+        : isMediaElement(element)
+          ? ''
+          : (backgroundImageUrl(element) ?? '');
+  return (
+    src.split('/').pop() ||
+    element.classList.item(0) ||
+    element.tagName.toLowerCase()
+  );
 }
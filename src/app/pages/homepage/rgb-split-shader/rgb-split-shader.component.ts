@@ -1,11 +1,34 @@
 import {
   AfterViewInit,
   Component,
+  DestroyRef,
   ElementRef,
+  Inject,
+  Input,
   OnDestroy,
   ViewChild,
 } from '@angular/core';
 import * as THREE from 'three';
+import {
+  DisposalRegistryService,
+  DisposalScope,
+} from '../../../webgl/disposal-registry.service';
+import {
+  FrameSchedulerService,
+  FrameSubscription,
+} from '../../../webgl/frame-scheduler.service';
+import { MotionPreferenceService } from '../../../webgl/motion-preference.service';
+import { ScrollService } from '../../../webgl/scroll.service';
+import { TextureService } from '../../../webgl/texture.service';
+import {
+  WEBGL_EFFECTS_CONFIG,
+  WebGLEffectsConfig,
+} from '../../../webgl/webgl-effects.config';
+import {
+  RenderViewHandle,
+  WebGLRendererService,
+} from '../../../webgl/webgl-renderer.service';
+import { SHADER_EFFECT_PARAMS } from '../shader-presets';
 
 @Component({
   standalone: true,
@@ -26,46 +49,58 @@ export class FabricRgbShaderComponent implements AfterViewInit, OnDestroy {
   @ViewChild('canvasContainer', { static: true })
   container!: ElementRef;
 
+  // Scales the split at full scroll speed, as for the shader effects
+  @Input() intensity: number;
+
   private scene!: THREE.Scene;
   private camera!: THREE.PerspectiveCamera;
-  private renderer!: THREE.WebGLRenderer;
+  private view: RenderViewHandle | null = null;
   private fabricMesh!: THREE.Mesh;
-  private animationId!: number;
+  private frameSubscription: FrameSubscription | null = null;
+  // Released when the component is destroyed.
+  private readonly resources: DisposalScope;
 
   // Shader uniforms.
   private uniforms: any;
 
-  // Scroll-driven variables.
-  private lastScrollY = window.scrollY;
-  private lastScrollTime = performance.now();
-  private targetOffset = 0.0;
+  // Scroll-driven variables. The offset at full speed for the default
+  // intensity.
+  private maxOffset = 0.03;
   private currentOffset = 0.0;
 
+  constructor(
+    private webgl: WebGLRendererService,
+    private scheduler: FrameSchedulerService,
+    private scroll: ScrollService,
+    private textures: TextureService,
+    private motion: MotionPreferenceService,
+    @Inject(WEBGL_EFFECTS_CONFIG) config: WebGLEffectsConfig,
+    disposal: DisposalRegistryService,
+    destroyRef: DestroyRef
+  ) {
+    this.resources = disposal.createScope(this, destroyRef);
+    this.intensity =
+      config.shaderEffect?.intensity ?? SHADER_EFFECT_PARAMS.intensity.default;
+  }
+
   ngAfterViewInit(): void {
+    if (!this.webgl.available) return;
+
     this.initThree();
-    this.animate();
-    window.addEventListener('scroll', this.onScroll.bind(this));
+    this.frameSubscription = this.scheduler.subscribe(this.animate);
   }
 
   ngOnDestroy(): void {
-    cancelAnimationFrame(this.animationId);
-    window.removeEventListener('scroll', this.onScroll.bind(this));
+    this.frameSubscription?.unsubscribe();
+    this.view?.unregister();
   }
 
   initThree(): void {
     const width = this.container.nativeElement.clientWidth;
     const height = this.container.nativeElement.clientHeight;
 
-    // Create the renderer.
-    this.renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true });
-
-    this.renderer.setSize(width, height);
-    this.renderer.setClearColor(0x000000, 0); // 0 alpha means transparent
-    this.container.nativeElement.appendChild(this.renderer.domElement);
-    this.renderer.domElement.style.backgroundColor = 'transparent';
-
-    // Create the scene.
-    this.scene = new THREE.Scene();
+    // Create the scene; tracking it disposes the planes on destroy.
+    this.scene = this.resources.track(new THREE.Scene());
     this.scene.background = null;
 
     // Set up a perspective camera.
@@ -77,15 +112,9 @@ export class FabricRgbShaderComponent implements AfterViewInit, OnDestroy {
     this.uniforms = {
       uOffset: { value: 0.0 },
       uNoiseScale: { value: 1.0 },
-      uTexture: { value: null },
+      uTexture: { value: this.resources.track(this.textures.load('react.png')) },
     };
 
-    // Load the fabric texture.
-    const textureLoader = new THREE.TextureLoader();
-    textureLoader.load('react.png', (texture) => {
-      this.uniforms.uTexture.value = texture;
-    });
-
     // Create a high-resolution plane geometry (4×3 units, 200 segments per side).
     const geometry = new THREE.PlaneGeometry(1, 1, 200, 200);
 
@@ -114,7 +143,15 @@ export class FabricRgbShaderComponent implements AfterViewInit, OnDestroy {
     this.scene.add(fabricGroup);
     // this.scene.add(this.fabricMesh);
 
-    window.addEventListener('resize', this.onWindowResize.bind(this));
+    // Draw into the container's rect on the shared (transparent) canvas.
+    this.view = this.webgl.register({
+      label: 'FabricRgbShader',
+      scene: this.scene,
+      camera: this.camera,
+      element: this.container.nativeElement,
+    });
+
+    this.resources.listen(window, 'resize', () => this.onWindowResize());
   }
 
   onWindowResize(): void {
@@ -122,42 +159,25 @@ export class FabricRgbShaderComponent implements AfterViewInit, OnDestroy {
     const height = this.container.nativeElement.clientHeight;
     this.camera.aspect = width / height;
     this.camera.updateProjectionMatrix();
-    this.renderer.setSize(width, height);
-  }
-
-  onScroll(event: Event): void {
-    const currentScrollY = window.scrollY;
-    const now = performance.now();
-    const deltaY = currentScrollY - this.lastScrollY;
-    const deltaT = now - this.lastScrollTime;
-    const scrollSpeed = deltaT ? deltaY / deltaT : 0;
-
-    // Compute a scroll-based offset. Adjust factor/throttle as needed.
-    const factor = 0.05;
-    const throttle = 0.3; // ~30% throttle
-    this.targetOffset = scrollSpeed * factor * throttle;
-
-    this.lastScrollY = currentScrollY;
-    this.lastScrollTime = now;
   }
 
   animate = (): void => {
-    this.animationId = requestAnimationFrame(this.animate);
+    // Signed offset from the shared scroll speed; settles to zero on its own.
+    // Reduced motion holds the fabric flat.
+    const targetOffset = this.motion.reduced()
+      ? 0
+      : Math.sign(this.scroll.velocity()) *
+        this.scroll.speed() *
+        this.maxOffset *
+        (this.intensity / SHADER_EFFECT_PARAMS.intensity.default);
 
-    const now = performance.now();
-    // If no scroll events for a short time, ease targetOffset toward zero.
-    if (now - this.lastScrollTime > 100) {
-      this.targetOffset = THREE.MathUtils.lerp(this.targetOffset, 0, 0.1);
-    }
     // Smoothly interpolate currentOffset toward targetOffset.
     this.currentOffset = THREE.MathUtils.lerp(
       this.currentOffset,
-      this.targetOffset,
+      targetOffset,
       0.2
     );
     this.uniforms.uOffset.value = this.currentOffset;
-
-    this.renderer.render(this.scene, this.camera);
   };
 
   // Vertex shader: Deforms the fabric using simplex noise.
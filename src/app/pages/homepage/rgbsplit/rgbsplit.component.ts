@@ -2,13 +2,56 @@ import { CommonModule } from '@angular/common';
 import {
   AfterViewInit,
   Component,
+  DestroyRef,
   ElementRef,
   HostListener,
+  Inject,
+  Injector,
+  Input,
   OnDestroy,
   OnInit,
   ViewChild,
+  effect,
+  signal,
 } from '@angular/core';
 import * as THREE from 'three';
+import {
+  applyWorldRect,
+  elementBoxToWorld,
+  ElementBox,
+  measureElement,
+} from '../../../webgl/dom-to-world';
+import {
+  DisposalRegistryService,
+  DisposalScope,
+} from '../../../webgl/disposal-registry.service';
+import {
+  FramePhase,
+  FrameSchedulerService,
+  FrameSubscription,
+} from '../../../webgl/frame-scheduler.service';
+import {
+  MediaElement,
+  MediaTexture,
+  objectFitTransform,
+} from '../../../webgl/media-texture';
+import { MotionPreferenceService } from '../../../webgl/motion-preference.service';
+import {
+  ScrollContainer,
+  ScrollService,
+  ScrollSource,
+} from '../../../webgl/scroll.service';
+import { TextureService } from '../../../webgl/texture.service';
+import { VisibilityService } from '../../../webgl/visibility.service';
+import {
+  WEBGL_EFFECTS_CONFIG,
+  WebGLEffectsConfig,
+} from '../../../webgl/webgl-effects.config';
+import {
+  RenderViewHandle,
+  WebGLRendererService,
+} from '../../../webgl/webgl-renderer.service';
+import { SHADER_EFFECT_PARAMS } from '../shader-presets';
 
 // In an Angular project, you'd likely put these in separate files
 const vertexShader = `
@@ -35,6 +78,8 @@ const fragmentShader = `
   uniform sampler2D uTexture;
   uniform float uAlpha;
   uniform vec2 uOffset;
+  uniform vec2 uUvScale;
+  uniform vec2 uUvOffset;
   varying vec2 vUv;
 
   vec4 rgbShift(sampler2D textureImage, vec2 uv, vec2 offset) {
@@ -50,10 +95,13 @@ const fragmentShader = `
   }
 
   void main() {
-    vec4 color = rgbShift(uTexture, vUv, uOffset);
+    // Crop or letterbox the media as its object-fit does
+    vec2 uv = vUv * uUvScale + uUvOffset;
+    vec2 inside = step(vec2(0.0), uv) * step(uv, vec2(1.0));
+    vec4 color = rgbShift(uTexture, uv, uOffset);
 
     // Only apply chromatic aberration where there's visible content
-    gl_FragColor = vec4(color.rgb, color.a * uAlpha);
+    gl_FragColor = vec4(color.rgb, color.a * uAlpha * inside.x * inside.y);
   }
 `;
 
@@ -84,52 +132,91 @@ export class SmoothScrollComponent implements OnInit, AfterViewInit, OnDestroy {
   @ViewChild('scrollable', { static: true })
   scrollable!: ElementRef<HTMLElement>;
 
+  // Scroll container to follow instead of the window, or 'auto' for the
+  // nearest scrollable ancestor. The page's height is left alone then.
+  @Input() scrollContainer: ScrollContainer = null;
+  // Scale the RGB split and bend as for the shader effects; the app's
+  // defaults from provideWebGLEffects() apply unless set here
+  @Input() intensity: number;
+  @Input() scrollSensitivity: number;
+
   private scene!: THREE.Scene;
   private camera!: THREE.PerspectiveCamera;
-  private renderer!: THREE.WebGLRenderer;
+  private view: RenderViewHandle | null = null;
   private meshItems: MeshItem[] = [];
-  private animationFrameId: number = 0;
-
-  private current: number = 0;
-  private target: number = 0;
-  private ease: number = 0.075;
-
-  constructor() {}
+  private frameSubscriptions: FrameSubscription[] = [];
+  private scrollSource!: ScrollSource;
+  // Released when the component is destroyed
+  private readonly resources: DisposalScope;
+
+  constructor(
+    private webgl: WebGLRendererService,
+    private scheduler: FrameSchedulerService,
+    private scroll: ScrollService,
+    private textures: TextureService,
+    private motion: MotionPreferenceService,
+    private visibility: VisibilityService,
+    private injector: Injector,
+    @Inject(WEBGL_EFFECTS_CONFIG) config: WebGLEffectsConfig,
+    disposal: DisposalRegistryService,
+    destroyRef: DestroyRef
+  ) {
+    this.resources = disposal.createScope(this, destroyRef);
+
+    const defaults = config.shaderEffect ?? {};
+    this.intensity =
+      defaults.intensity ?? SHADER_EFFECT_PARAMS.intensity.default;
+    this.scrollSensitivity =
+      defaults.scrollSensitivity ??
+      SHADER_EFFECT_PARAMS.scrollSensitivity.default;
+  }
 
   ngOnInit(): void {
+    const scroll = this.scroll.observe(
+      this.scrollContainer,
+      this.container.nativeElement
+    );
+    this.scrollSource = scroll.source;
+    this.resources.add(() => scroll.release());
+
     // Initial setup
     this.initBodyHeight();
   }
 
   ngAfterViewInit(): void {
+    // Without WebGL the stylesheet reveals the images instead
+    if (!this.webgl.available) return;
+
     // Setup Three.js after the view is initialized
     this.setupCamera();
     this.createMeshItems();
-    this.render();
+    this.view = this.webgl.register({
+      label: 'SmoothScroll',
+      scene: this.scene,
+      camera: this.camera,
+    });
+    this.frameSubscriptions = [
+      this.scheduler.subscribe(() => this.measure(), FramePhase.READ),
+      this.scheduler.subscribe(this.render),
+    ];
   }
 
   ngOnDestroy(): void {
     // Clean up resources when component is destroyed
-    if (this.animationFrameId) {
-      cancelAnimationFrame(this.animationFrameId);
-    }
-    this.scene.clear();
-    this.renderer.dispose();
+    this.frameSubscriptions.forEach((s) => s.unsubscribe());
+    this.view?.unregister();
   }
 
   @HostListener('window:resize')
   onWindowResize(): void {
     this.initBodyHeight();
-    this.updateCamera();
-  }
-
-  @HostListener('window:scroll')
-  onScroll(): void {
-    // Update target on scroll
-    this.target = window.scrollY;
+    if (this.camera) this.updateCamera();
   }
 
   private initBodyHeight(): void {
+    // A scroll container scrolls its own content
+    if (this.scrollSource !== this.scroll) return;
+
     // Set the body height to enable scrolling
     document.body.style.height = `${
       this.scrollable.nativeElement.getBoundingClientRect().height
@@ -137,8 +224,8 @@ export class SmoothScrollComponent implements OnInit, AfterViewInit, OnDestroy {
   }
 
   private setupCamera(): void {
-    // Create new scene
-    this.scene = new THREE.Scene();
+    // Create new scene; tracking it disposes every mesh item on destroy
+    this.scene = this.resources.track(new THREE.Scene());
 
     // Initialize perspective camera
     const perspective = 1000;
@@ -151,58 +238,71 @@ export class SmoothScrollComponent implements OnInit, AfterViewInit, OnDestroy {
       1000
     );
     this.camera.position.set(0, 0, perspective);
-
-    // Initialize renderer
-    this.renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true });
-    this.renderer.setSize(this.viewport.width, this.viewport.height);
-    this.renderer.setPixelRatio(window.devicePixelRatio);
-    this.container.nativeElement.appendChild(this.renderer.domElement);
   }
 
   private updateCamera(): void {
     this.camera.aspect = this.viewport.aspectRatio;
     this.camera.updateProjectionMatrix();
-    this.renderer.setSize(this.viewport.width, this.viewport.height);
   }
 
   private createMeshItems(): void {
-    // Find all images within the scrollable container
-    const images = Array.from(
-      this.scrollable.nativeElement.querySelectorAll('img')
+    // Find all images, videos and canvases within the scrollable container
+    const elements = Array.from(
+      this.scrollable.nativeElement.querySelectorAll<MediaElement>(
+        'img, video, canvas'
+      )
     );
 
-    // Create mesh items for each image
-    images.forEach((image) => {
-      const meshItem = new MeshItem(image, this.scene);
+    // Create mesh items for each of them
+    elements.forEach((element) => {
+      const media = this.resources.track(
+        new MediaTexture(element, this.textures)
+      );
+      const meshItem = new MeshItem(element, this.scene, this.camera, media);
       this.meshItems.push(meshItem);
+
+      // Play and upload media only while it can be seen and may move
+      const visible = signal<boolean | null>(null);
+      const visibility = this.visibility.watch(element, (value) =>
+        visible.set(value)
+      );
+      const activity = effect(
+        () => {
+          // Unknown until the first visibility report
+          const shown = visible();
+          if (shown !== null) media.setActive(shown && !this.motion.reduced());
+        },
+        { injector: this.injector }
+      );
+      this.resources.add(() => {
+        visibility.unobserve();
+        activity.destroy();
+      });
     });
   }
 
-  private smoothScroll(): void {
-    this.current = this.lerp(this.current, this.target, this.ease);
+  private measure(): void {
+    for (let i = 0; i < this.meshItems.length; i++) {
+      this.meshItems[i].measure();
+    }
   }
 
   private render = (): void => {
-    // Smooth scroll and update meshes
-    this.smoothScroll();
-
-    // Update each mesh item
+    // Update each mesh item from the shared smoothed scroll velocity; the
+    // shared renderer draws the scene. Reduced motion keeps the images flat.
+    const reduced = this.motion.reduced();
+    const velocity = reduced ? 0 : this.scrollSource.velocity();
+    const velocityX = reduced ? 0 : this.scrollSource.velocityX();
+    // Offset per pixel of velocity; the default intensity keeps the
+    // sensitivity as it is
+    const strength =
+      this.scrollSensitivity *
+      (this.intensity / SHADER_EFFECT_PARAMS.intensity.default);
     for (let i = 0; i < this.meshItems.length; i++) {
-      this.meshItems[i].render(this.target, this.current);
+      this.meshItems[i].render(velocity, velocityX, strength);
     }
-
-    // Render the scene
-    this.renderer.render(this.scene, this.camera);
-
-    // Continue animation loop
-    this.animationFrameId = requestAnimationFrame(this.render);
   };
 
-  private lerp(start: number, end: number, t: number): number {
-    // Linear interpolation helper
-    return start * (1 - t) + end * t;
-  }
-
   // Getter for viewport dimensions
   private get viewport() {
     const width = window.innerWidth;
@@ -218,49 +318,64 @@ export class SmoothScrollComponent implements OnInit, AfterViewInit, OnDestroy {
 
 // Helper class for mesh creation and management
 class MeshItem {
-  private element: HTMLImageElement;
+  private element: MediaElement;
   private scene: THREE.Scene;
   private mesh: THREE.Mesh;
   private geometry: THREE.BufferGeometry;
   private material: THREE.ShaderMaterial;
-  private imageTexture: THREE.Texture;
+  private media: MediaTexture;
+  // The element's CSS object-fit, reproduced through the UVs
+  private objectFit: string;
   private uniforms: any;
-  private offset: THREE.Vector2;
-  private sizes: THREE.Vector2;
-
-  constructor(element: HTMLImageElement, scene: THREE.Scene) {
+  private camera: THREE.PerspectiveCamera;
+  private box: ElementBox;
+
+  constructor(
+    element: MediaElement,
+    scene: THREE.Scene,
+    camera: THREE.PerspectiveCamera,
+    media: MediaTexture
+  ) {
     this.element = element;
     this.scene = scene;
-    this.offset = new THREE.Vector2(0, 0);
-    this.sizes = new THREE.Vector2(0, 0);
+    this.camera = camera;
+    this.media = media;
+    this.objectFit = getComputedStyle(element).objectFit;
+    this.measure();
     this.createMesh();
   }
 
-  private getDimensions(): void {
-    const { width, height, top, left } = this.element.getBoundingClientRect();
-    this.sizes.set(width, height);
-    this.offset.set(
-      left - window.innerWidth / 2 + width / 2,
-      -top + window.innerHeight / 2 - height / 2
-    );
+  // Reads layout; called in the frame scheduler's read phase
+  public measure(): void {
+    this.box = measureElement(this.element);
+  }
+
+  private updatePosition(): void {
+    // The canvas covers the viewport
+    const canvasRect = new DOMRect(0, 0, window.innerWidth, window.innerHeight);
+    const world = elementBoxToWorld(this.box, canvasRect, this.camera);
+    applyWorldRect(this.mesh, world);
+
+    objectFitTransform(this.objectFit, this.box, this.media.size ?? this.box, {
+      scale: this.uniforms.uUvScale.value,
+      offset: this.uniforms.uUvOffset.value,
+    });
   }
 
   private createMesh(): void {
     // Create geometry with higher resolution for more detailed distortion
     this.geometry = new THREE.PlaneGeometry(1, 1, 100, 100);
 
-    // Load texture
-    this.imageTexture = new THREE.TextureLoader().load(this.element.src);
-    // Set texture parameters for better quality
-    this.imageTexture.minFilter = THREE.LinearFilter;
-    this.imageTexture.magFilter = THREE.LinearFilter;
-    this.imageTexture.generateMipmaps = false;
-    this.imageTexture.format = THREE.RGBAFormat; // Explicitly set RGBA format
-
     // Setup uniforms for shaders
     this.uniforms = {
       uTexture: {
-        value: this.imageTexture,
+        value: this.media.texture,
+      },
+      uUvScale: {
+        value: new THREE.Vector2(1, 1),
+      },
+      uUvOffset: {
+        value: new THREE.Vector2(0, 0),
       },
       uOffset: {
         value: new THREE.Vector2(0.0, 0.0),
@@ -285,22 +400,24 @@ class MeshItem {
     });
     // Create mesh and add to scene
     this.mesh = new THREE.Mesh(this.geometry, this.material);
-    this.getDimensions();
-    this.mesh.position.set(this.offset.x, this.offset.y, 0);
-    this.mesh.scale.set(this.sizes.x, this.sizes.y, 1);
+    this.updatePosition();
     this.scene.add(this.mesh);
   }
 
-  public render(target: number, current: number): void {
-    // Update dimensions and position
-    this.getDimensions();
-    this.mesh.position.set(this.offset.x, this.offset.y, 0);
-    this.mesh.scale.set(this.sizes.x, this.sizes.y, 1);
+  public render(velocity: number, velocityX: number, strength: number): void {
+    // Update position from the latest measurement
+    this.updatePosition();
+
+    // A video switches from its poster once it has a frame
+    this.uniforms.uTexture.value = this.media.texture;
+    this.media.update();
 
-    // Calculate scroll velocity for distortion effects
-    const scrollVelocity = -(target - current) * 0.003;
+    // Calculate scroll velocity for distortion effects; horizontal scrolling
+    // bends the images sideways
+    const scrollVelocity = -velocity * strength;
+    const scrollVelocityX = -velocityX * strength;
 
     // Update shader uniforms
-    this.uniforms.uOffset.value.set(this.offset.x * 0.0, scrollVelocity);
+    this.uniforms.uOffset.value.set(scrollVelocityX, scrollVelocity);
   }
 }
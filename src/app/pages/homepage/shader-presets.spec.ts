@@ -0,0 +1,111 @@
+import { TestBed } from '@angular/core/testing';
+import * as THREE from 'three';
+import { defaultParams } from '../../webgl/effect-params';
+import {
+  BUILT_IN_SHADER_PRESETS,
+  SHADER_EFFECT_PARAMS,
+  SHADER_PRESETS,
+  ShaderEffectType,
+  ShaderPresetFrame,
+  ShaderTransitionType,
+  composeShaderStages,
+  isShaderTransition,
+  provideShaderPresets,
+} from './shader-presets';
+
+describe('shader presets', () => {
+  const frame = (amount: number): ShaderPresetFrame => ({
+    delta: 1 / 60,
+    time: 0,
+    velocity: -amount,
+    velocityX: 0,
+    amount,
+    pointer: new THREE.Vector2(0.5, 0.5),
+    pointerVelocity: new THREE.Vector2(),
+    hover: 0,
+    rippleOrigin: new THREE.Vector2(0.5, 0.5),
+    rippleAge: -1,
+    params: defaultParams(SHADER_EFFECT_PARAMS),
+  });
+
+  it('should have a built-in preset for every effect type', () => {
+    const names = BUILT_IN_SHADER_PRESETS.map((preset) => preset.name);
+    for (const type of Object.values(ShaderEffectType)) {
+      expect(names).toContain(type);
+    }
+  });
+
+  it('should resolve the pixelate preset crisply at rest', () => {
+    const preset = BUILT_IN_SHADER_PRESETS.find(
+      (p) => p.name === ShaderEffectType.PIXELATE
+    )!;
+    const uniforms = preset.uniforms!();
+
+    preset.update!(uniforms, frame(1));
+    expect(uniforms['uPixelSize'].value).toBe(
+      SHADER_EFFECT_PARAMS.pixelSize.default
+    );
+
+    preset.update!(uniforms, frame(0));
+    expect(uniforms['uPixelSize'].value).toBe(1);
+  });
+
+  it('should split RGB along the pointer movement', () => {
+    const preset = BUILT_IN_SHADER_PRESETS.find(
+      (p) => p.name === ShaderEffectType.RGB_SHIFT
+    )!;
+    const uniforms = preset.uniforms!();
+
+    preset.update!(uniforms, {
+      ...frame(0),
+      pointerVelocity: new THREE.Vector2(2, 0),
+    });
+    expect(uniforms['uOffset'].value.x).toBeGreaterThan(0);
+    expect(uniforms['uOffset'].value.y).toBe(0);
+  });
+
+  it('should chain stages with per-stage uniform names', () => {
+    const preset = (name: string) =>
+      BUILT_IN_SHADER_PRESETS.find((p) => p.name === name)!;
+    const { vertexShader, fragmentShader } = composeShaderStages([
+      preset(ShaderEffectType.WAVE),
+      preset(ShaderEffectType.PIXELATE),
+      preset(ShaderEffectType.RGB_SHIFT),
+    ]);
+
+    expect(vertexShader).toContain(
+      's2_displace(s0_displace(position, uv), uv)'
+    );
+    expect(vertexShader).toContain('uniform float s0_uAmplitude;');
+    expect(fragmentShader).toContain('s1_sample(uv + s2_uOffset * 1.0)');
+    expect(fragmentShader).toContain('vec4 color = s2_sample(vUv);');
+    expect(fragmentShader).not.toContain('$');
+  });
+
+  it('should read the first stage through the chosen transition', () => {
+    const { fragmentShader } = composeShaderStages(
+      [BUILT_IN_SHADER_PRESETS[0]],
+      ShaderTransitionType.DISPLACEMENT
+    );
+
+    expect(fragmentShader).toContain('uniform sampler2D uTransitionMap;');
+    expect(fragmentShader).toContain(
+      'uProgress < 1.0 ? transition(uv, uProgress) : sampleCurrent(uv)'
+    );
+    expect(isShaderTransition(ShaderTransitionType.NOISE_REVEAL)).toBeTrue();
+    expect(isShaderTransition('fade')).toBeFalse();
+  });
+
+  it('should provide app presets through the injection token', () => {
+    const preset = {
+      name: 'custom',
+      vertexShader: 'void main() {}',
+      fragmentShader: 'void main() {}',
+    };
+    TestBed.configureTestingModule({
+      providers: [provideShaderPresets(preset)],
+    });
+
+    expect(TestBed.inject(SHADER_PRESETS)).toEqual([preset]);
+  });
+});
@@ -0,0 +1,521 @@
+// shader-presets.ts
+import { InjectionToken, Provider } from '@angular/core';
+import * as THREE from 'three';
+import { EffectParamValues, defineParams } from '../../webgl/effect-params';
+
+// Available shader effects. Each one is driven by the smoothed scroll
+// velocity and settles back to the untouched image once scrolling stops.
+export enum ShaderEffectType {
+  // Red and blue fringes spreading out from the centre; `intensity` sets
+  // how far they spread
+  CHROMATIC_ABERRATION = 'chromatic_aberration',
+  // Bends the plane against the scroll direction; `intensity` sets the bend
+  DISTORTION = 'distortion',
+  // Blocks of up to `pixelSize` screen pixels while scrolling
+  PIXELATE = 'pixelate',
+  // Travelling sine wave of `frequency` and up to `amplitude` (a fraction of
+  // the image height), moving at `animationSpeed`
+  WAVE = 'wave',
+  // Vertical red/blue channel split plus the DISTORTION bend
+  RGB_SHIFT = 'rgb_shift',
+  // Film grain; `intensity` sets how strong it gets
+  GRAIN = 'grain',
+  // Bulge under the pointer and a ripple from each click or tap; added to
+  // the chain by the directive's `pointerReactive` input
+  POINTER = 'pointer',
+}
+
+// How an effect moves from one image to the next when its host's source
+// changes, e.g. an `<img>` given a new `src`
+export enum ShaderTransitionType {
+  // Both images pushed apart along a displacement map, as in
+  // FadingDisplacementComponent
+  DISPLACEMENT = 'displacement',
+  // Red crosses over first and blue last
+  RGB_DISSOLVE = 'rgb_dissolve',
+  // The new image shows through patches of noise that grow until they meet
+  NOISE_REVEAL = 'noise_reveal',
+  // Swaps straight away
+  NONE = 'none',
+}
+
+// Tweakable from the debug overlay; the matching inputs set the start values
+export const SHADER_EFFECT_PARAMS = defineParams({
+  intensity: { type: 'number', min: 0, max: 2, default: 0.5 },
+  scrollSensitivity: {
+    type: 'number',
+    min: 0,
+    max: 0.01,
+    step: 0.0001,
+    default: 0.003,
+  },
+  animationSpeed: { type: 'number', min: 0, max: 5, default: 1 },
+  pixelSize: { type: 'number', min: 1, max: 32, step: 1, default: 8 },
+  frequency: { type: 'number', min: 0, max: 30, default: 10 },
+  amplitude: { type: 'number', min: 0, max: 0.5, default: 0.1 },
+  transitionDuration: { type: 'number', min: 0, max: 3, default: 1.2 },
+});
+
+// One effect in a chain, with its own intensity instead of the directive's
+export interface ShaderEffectStage {
+  effect: ShaderEffectType | string;
+  intensity?: number;
+}
+
+// Per-frame input for a preset's `update`
+export interface ShaderPresetFrame {
+  // Seconds since the previous frame
+  delta: number;
+  // Effect time in seconds, scaled by animationSpeed; frozen while motion is
+  // reduced
+  time: number;
+  // Smoothed scroll velocity scaled by scrollSensitivity, negative while
+  // scrolling down; exactly 0 at rest and while motion is reduced
+  velocity: number;
+  // The same horizontally, negative while scrolling right
+  velocityX: number;
+  // Length of both velocities clamped to 0..1
+  amount: number;
+  // Pointer over the image in UV space, (0, 0) bottom left
+  pointer: THREE.Vector2;
+  // The following stay at rest unless the directive is `pointerReactive`:
+  // Smoothed pointer velocity in UV units per second
+  pointerVelocity: THREE.Vector2;
+  // Eases to 1 while the pointer, or a finger, is over the image
+  hover: number;
+  // Where the last click or tap on the image landed, in UV space
+  rippleOrigin: THREE.Vector2;
+  // Seconds since that click or tap; -1 before the first
+  rippleAge: number;
+  // The directive's values, with `intensity` replaced by the stage's own
+  params: Readonly<EffectParamValues<typeof SHADER_EFFECT_PARAMS>>;
+}
+
+/**
+ * A named effect for ShaderEffectDirective, selected with its `effectType`
+ * input or listed in its `effectChain`. Every preset can use the uTexture,
+ * uAlpha, uTime (seconds), uResolution (on-screen size in device pixels),
+ * uPointer (UV) and uPointerVelocity (UV per second) uniforms and adds its
+ * own. Stages sample through `$prev`, which crops or letterboxes the texture
+ * as the element's object-fit does and runs the source-change transition;
+ * complete shaders apply uUvScale and uUvOffset themselves, and switch
+ * images without a transition.
+ *
+ * A preset is either a pair of complete shaders, which can only be used on
+ * its own, or chainable stages (see composeShaderStages):
+ * - `vertexStage` defines `vec3 $displace(vec3 position, vec2 uv)`
+ * - `fragmentStage` defines `vec4 $sample(vec2 uv)`, reading the image as
+ *   left by the previous stage through `$prev(uv)`
+ * Uniforms the stages declare must be written `$uName` and are created by
+ * `uniforms()` as `uName`; `$` becomes a per-stage prefix so the same preset
+ * can appear twice in one chain.
+ */
+export interface ShaderPreset {
+  name: string;
+  vertexShader?: string;
+  fragmentShader?: string;
+  vertexStage?: string;
+  fragmentStage?: string;
+  // Plane segments at the highest quality tier; defaults to 8
+  segments?: number;
+  // Called once per image for its own copy of the preset's uniforms
+  uniforms?: () => Record<string, THREE.IUniform>;
+  // Called every frame before rendering, with the preset's own uniforms
+  // under their unprefixed names alongside the shared ones
+  update?: (
+    uniforms: Record<string, THREE.IUniform>,
+    frame: ShaderPresetFrame
+  ) => void;
+}
+
+// Presets registered by the app, looked up before the built-in ones so a
+// built-in can be replaced by registering its name
+export const SHADER_PRESETS = new InjectionToken<ShaderPreset[]>(
+  'SHADER_PRESETS'
+);
+
+// For a component's or the application's providers
+export function provideShaderPresets(...presets: ShaderPreset[]): Provider[] {
+  return presets.map((preset) => ({
+    provide: SHADER_PRESETS,
+    useValue: preset,
+    multi: true,
+  }));
+}
+
+// Uniform prefix of the stage at `index` in a chain
+export function stagePrefix(index: number): string {
+  return `s${index}_`;
+}
+
+const STAGE_HEADER = `
+  uniform float uTime;
+  uniform vec2 uResolution;
+  uniform vec2 uPointer;
+  uniform vec2 uPointerVelocity;
+  varying vec2 vUv;
+
+  #define M_PI 3.1415926535897932384626433832795
+`;
+
+// Each defines `vec4 transition(vec2 uv, float progress)`, blending from
+// samplePrevious to sampleCurrent as progress goes from 0 to 1
+const TRANSITIONS: Record<ShaderTransitionType, string> = {
+  [ShaderTransitionType.DISPLACEMENT]: `
+    uniform sampler2D uTransitionMap;
+
+    vec4 transition(vec2 uv, float progress) {
+      // Push both images out from the centre, less towards the edges
+      vec2 fromCentre = uv - 0.5;
+      vec2 direction = fromCentre / max(length(fromCentre), 0.0001);
+      float edgeFalloff = 1.0 - smoothstep(0.3, 0.5, length(fromCentre));
+      float amount = texture2D(uTransitionMap, uv).r * 0.75 * edgeFalloff;
+
+      vec4 previous = samplePrevious(uv - direction * amount * progress);
+      vec4 current = sampleCurrent(uv - direction * amount * (1.0 - progress));
+      return mix(previous, current, progress);
+    }
+  `,
+  [ShaderTransitionType.RGB_DISSOLVE]: `
+    vec4 transition(vec2 uv, float progress) {
+      vec3 channels = clamp(progress * 1.5 - vec3(0.0, 0.25, 0.5), 0.0, 1.0);
+      // Channels still crossing over are pulled apart a little
+      vec2 shift = vec2(0.02, 0.0) * sin(progress * M_PI);
+
+      vec4 previous = samplePrevious(uv);
+      vec4 current = vec4(
+        sampleCurrent(uv + shift).r,
+        sampleCurrent(uv).g,
+        sampleCurrent(uv - shift).b,
+        sampleCurrent(uv).a
+      );
+      return vec4(
+        mix(previous.rgb, current.rgb, channels),
+        mix(previous.a, current.a, progress)
+      );
+    }
+  `,
+  [ShaderTransitionType.NOISE_REVEAL]: `
+    float hash(vec2 cell) {
+      return fract(sin(dot(cell, vec2(12.9898, 78.233))) * 43758.5453);
+    }
+
+    // Value noise, smooth between lattice points
+    float valueNoise(vec2 point) {
+      vec2 cell = floor(point);
+      vec2 f = fract(point);
+      vec2 u = f * f * (3.0 - 2.0 * f);
+      return mix(
+        mix(hash(cell), hash(cell + vec2(1.0, 0.0)), u.x),
+        mix(hash(cell + vec2(0.0, 1.0)), hash(cell + vec2(1.0, 1.0)), u.x),
+        u.y
+      );
+    }
+
+    vec4 transition(vec2 uv, float progress) {
+      // Patches a few per image height, whatever the image's shape
+      vec2 aspect = vec2(uResolution.x / uResolution.y, 1.0);
+      float threshold = valueNoise(uv * aspect * 6.0) * 0.5
+        + valueNoise(uv * aspect * 14.0) * 0.5;
+      float reveal = smoothstep(threshold - 0.05, threshold + 0.05,
+        progress * 1.1 - 0.05);
+      return mix(samplePrevious(uv), sampleCurrent(uv), reveal);
+    }
+  `,
+  [ShaderTransitionType.NONE]: `
+    vec4 transition(vec2 uv, float progress) {
+      return sampleCurrent(uv);
+    }
+  `,
+};
+
+export function isShaderTransition(name: string): name is ShaderTransitionType {
+  return (Object.values(ShaderTransitionType) as string[]).includes(name);
+}
+
+/**
+ * Builds one shader pair running `presets` in order: their vertex stages
+ * displace the plane one after another, and each fragment stage samples the
+ * output of the one before it. Presets without stages are skipped. The first
+ * stage reads the image through `transition` while uProgress is below 1,
+ * from uPrevTexture to uTexture.
+ */
+export function composeShaderStages(
+  presets: readonly ShaderPreset[],
+  transition = ShaderTransitionType.NONE
+): {
+  vertexShader: string;
+  fragmentShader: string;
+} {
+  const vertexChunks: string[] = [];
+  const fragmentChunks: string[] = [];
+  let position = 'position';
+  let sample = 'sampleTexture';
+
+  presets.forEach((preset, index) => {
+    const prefix = stagePrefix(index);
+    const rename = (source: string) =>
+      source.replace(/\$(\w+)/g, (_, name) => prefix + name);
+
+    if (preset.vertexStage) {
+      vertexChunks.push(rename(preset.vertexStage));
+      position = `${prefix}displace(${position}, uv)`;
+    }
+    if (preset.fragmentStage) {
+      fragmentChunks.push(
+        rename(preset.fragmentStage.replace(/\$prev\b/g, sample))
+      );
+      sample = `${prefix}sample`;
+    }
+  });
+
+  return {
+    vertexShader: `${STAGE_HEADER}
+      ${vertexChunks.join('\n')}
+
+      void main() {
+        vUv = uv;
+        vec3 displaced = ${position};
+        gl_Position = projectionMatrix * modelViewMatrix * vec4(displaced, 1.0);
+      }
+    `,
+    fragmentShader: `${STAGE_HEADER}
+      uniform sampler2D uTexture;
+      uniform vec2 uUvScale;
+      uniform vec2 uUvOffset;
+      // The image being replaced, with its own object-fit
+      uniform sampler2D uPrevTexture;
+      uniform vec2 uPrevUvScale;
+      uniform vec2 uPrevUvOffset;
+      // 0 at the start of a transition, 1 once it's over
+      uniform float uProgress;
+      uniform float uAlpha;
+
+      vec4 sampleFitted(sampler2D image, vec2 uv, vec2 scale, vec2 offset) {
+        uv = uv * scale + offset;
+        // The letterbox bars of object-fit: contain
+        if (any(lessThan(uv, vec2(0.0))) || any(greaterThan(uv, vec2(1.0)))) {
+          return vec4(0.0);
+        }
+        return texture2D(image, uv);
+      }
+
+      vec4 sampleCurrent(vec2 uv) {
+        return sampleFitted(uTexture, uv, uUvScale, uUvOffset);
+      }
+
+      vec4 samplePrevious(vec2 uv) {
+        return sampleFitted(uPrevTexture, uv, uPrevUvScale, uPrevUvOffset);
+      }
+
+      ${TRANSITIONS[transition]}
+
+      vec4 sampleTexture(vec2 uv) {
+        return uProgress < 1.0 ? transition(uv, uProgress) : sampleCurrent(uv);
+      }
+
+      ${fragmentChunks.join('\n')}
+
+      void main() {
+        vec4 color = ${sample}(vUv);
+        gl_FragColor = vec4(color.rgb, color.a * uAlpha);
+      }
+    `,
+  };
+}
+
+// Chainable shader code
+const STAGE_LIBRARY = {
+  vertex: {
+    distortion: `
+      uniform vec2 $uOffset;
+
+      vec3 $displace(vec3 position, vec2 uv) {
+        position.x = position.x + (sin(uv.y * M_PI) * $uOffset.x);
+        position.y = position.y + (sin(uv.x * M_PI) * $uOffset.y);
+        return position;
+      }
+    `,
+    wave: `
+      uniform float $uFrequency;
+      uniform float $uAmplitude;
+
+      vec3 $displace(vec3 position, vec2 uv) {
+        position.y += sin($uFrequency * position.x + uTime) * $uAmplitude;
+        return position;
+      }
+    `,
+  },
+  fragment: {
+    chromaticAberration: `
+      uniform float $uStrength;
+
+      vec4 $sample(vec2 uv) {
+        // Scale each channel's lookup about the centre by a different amount
+        vec2 fromCentre = uv - 0.5;
+        float r = $prev(0.5 + fromCentre * (1.0 - $uStrength)).r;
+        vec4 center = $prev(uv);
+        float b = $prev(0.5 + fromCentre * (1.0 + $uStrength)).b;
+        return vec4(r, center.g, b, center.a);
+      }
+    `,
+    rgbShift: `
+      uniform vec2 $uOffset;
+
+      vec4 $sample(vec2 uv) {
+        // Sample each channel with different offsets
+        float r = $prev(uv + $uOffset * 1.0).r;
+        vec4 center = $prev(uv);
+        float b = $prev(uv - $uOffset * 0.5).b;
+        return vec4(r, center.g, b, center.a);
+      }
+    `,
+    pixelate: `
+      uniform float $uPixelSize;
+
+      vec4 $sample(vec2 uv) {
+        // Blocks smaller than a screen pixel would only shimmer, so at rest
+        // the image is sampled untouched
+        if ($uPixelSize > 1.0) {
+          vec2 blocks = uResolution / $uPixelSize;
+          uv = (floor(uv * blocks) + 0.5) / blocks;
+        }
+        return $prev(uv);
+      }
+    `,
+    grain: `
+      uniform float $uGrain;
+
+      vec4 $sample(vec2 uv) {
+        vec4 color = $prev(uv);
+        vec2 seed = floor(uv * uResolution) + fract(uTime) * 100.0;
+        float noise = fract(sin(dot(seed, vec2(12.9898, 78.233))) * 43758.5453);
+        color.rgb += (noise - 0.5) * $uGrain;
+        return color;
+      }
+    `,
+    pointer: `
+      uniform float $uStrength;
+      uniform float $uHover;
+      // Origin of the last click in xy, its age in seconds in z
+      uniform vec3 $uRipple;
+
+      vec4 $sample(vec2 uv) {
+        // Distances in units of the image height, so the effects stay round
+        vec2 aspect = vec2(uResolution.x / uResolution.y, 1.0);
+
+        // Magnify around the pointer by sampling closer to it
+        vec2 toPointer = (uv - uPointer) * aspect;
+        float bulge = smoothstep(0.35, 0.0, length(toPointer)) * $uHover;
+        uv -= toPointer / aspect * bulge * 0.3 * $uStrength;
+
+        // A ring travelling out from the click, fading as it goes
+        if ($uRipple.z >= 0.0 && $uRipple.z < 1.2) {
+          vec2 fromClick = (uv - $uRipple.xy) * aspect;
+          float distance = length(fromClick);
+          float ring = smoothstep(0.08, 0.0, abs(distance - $uRipple.z * 0.6));
+          float fade = 1.0 - $uRipple.z / 1.2;
+          uv += fromClick / max(distance, 0.0001) / aspect
+            * ring * fade * 0.05 * $uStrength;
+        }
+
+        return $prev(uv);
+      }
+    `,
+  },
+};
+
+// Pointer velocity (UV per second) to offset, relative to scroll velocity
+const POINTER_OFFSET = 0.01;
+
+// Bends the plane against the scroll direction on both axes, and along the
+// pointer's movement when that is tracked
+function updateOffset(
+  uniforms: Record<string, THREE.IUniform>,
+  { velocity, velocityX, pointerVelocity, params }: ShaderPresetFrame
+): void {
+  uniforms['uOffset'].value
+    .set(
+      velocityX + pointerVelocity.x * POINTER_OFFSET,
+      velocity + pointerVelocity.y * POINTER_OFFSET
+    )
+    .multiplyScalar(params.intensity);
+}
+
+const offsetUniforms = () => ({
+  uOffset: { value: new THREE.Vector2(0.0, 0.0) },
+});
+
+export const BUILT_IN_SHADER_PRESETS: readonly ShaderPreset[] = [
+  {
+    name: ShaderEffectType.RGB_SHIFT,
+    vertexStage: STAGE_LIBRARY.vertex.distortion,
+    fragmentStage: STAGE_LIBRARY.fragment.rgbShift,
+    uniforms: offsetUniforms,
+    update: updateOffset,
+  },
+  {
+    name: ShaderEffectType.CHROMATIC_ABERRATION,
+    fragmentStage: STAGE_LIBRARY.fragment.chromaticAberration,
+    uniforms: () => ({ uStrength: { value: 0.0 } }),
+    update: (uniforms, { amount, params }) => {
+      uniforms['uStrength'].value = amount * params.intensity * 0.1;
+    },
+  },
+  {
+    name: ShaderEffectType.DISTORTION,
+    vertexStage: STAGE_LIBRARY.vertex.distortion,
+    uniforms: offsetUniforms,
+    update: updateOffset,
+  },
+  {
+    name: ShaderEffectType.PIXELATE,
+    fragmentStage: STAGE_LIBRARY.fragment.pixelate,
+    uniforms: () => ({ uPixelSize: { value: 1 } }),
+    update: (uniforms, { amount, params }) => {
+      // Whole screen pixels, so the blocks don't swim while they grow
+      uniforms['uPixelSize'].value = Math.round(
+        1 + (params.pixelSize - 1) * amount
+      );
+    },
+  },
+  {
+    name: ShaderEffectType.WAVE,
+    vertexStage: STAGE_LIBRARY.vertex.wave,
+    // Waves need enough segments to bend smoothly
+    segments: 64,
+    uniforms: () => ({
+      uFrequency: { value: 0 },
+      uAmplitude: { value: 0 },
+    }),
+    update: (uniforms, { amount, params }) => {
+      uniforms['uFrequency'].value = params.frequency;
+      uniforms['uAmplitude'].value = params.amplitude * amount;
+    },
+  },
+  {
+    name: ShaderEffectType.GRAIN,
+    fragmentStage: STAGE_LIBRARY.fragment.grain,
+    uniforms: () => ({ uGrain: { value: 0.0 } }),
+    update: (uniforms, { amount, params }) => {
+      uniforms['uGrain'].value = amount * params.intensity * 0.3;
+    },
+  },
+  {
+    name: ShaderEffectType.POINTER,
+    fragmentStage: STAGE_LIBRARY.fragment.pointer,
+    uniforms: () => ({
+      uStrength: { value: 0.0 },
+      uHover: { value: 0.0 },
+      uRipple: { value: new THREE.Vector3(0, 0, -1) },
+    }),
+    update: (uniforms, { hover, rippleOrigin, rippleAge, params }) => {
+      uniforms['uStrength'].value = params.intensity;
+      uniforms['uHover'].value = hover;
+      uniforms['uRipple'].value.set(rippleOrigin.x, rippleOrigin.y, rippleAge);
+    },
+  },
+];
+
+// Plain image, for effect types nothing is registered under
+export const BASIC_SHADER_PRESET: ShaderPreset = { name: 'basic' };
@@ -11,6 +11,13 @@ import {
   OnInit,
   Renderer2,
 } from '@angular/core';
+import { CanvasSpaceRect, toCanvasSpace } from '../../webgl/dom-to-world';
+import {
+  EffectContainerConfig,
+  WEBGL_EFFECTS_CONFIG,
+  WebGLEffectsConfig,
+  containerParent,
+} from '../../webgl/webgl-effects.config';
 
 @Directive({
   selector: '[translateToCanvasCoords]',
@@ -20,7 +27,7 @@ export class TranslateToCanvasCoords
   implements OnInit, AfterViewInit, OnDestroy
 {
   @Input() overlayOpacity: number = 1;
-  @Input() overlayZIndex: number = 1001;
+  @Input() overlayZIndex: number;
 
   private overlay: HTMLElement | null = null;
   private resizeObserver: ResizeObserver | null = null;
@@ -28,13 +35,18 @@ export class TranslateToCanvasCoords
   private resizeListener!: Function;
   private animationFrameId: number | null = null;
   private meshContainer: HTMLElement | null = null;
+  private readonly containerConfig: EffectContainerConfig;
 
   constructor(
     private el: ElementRef,
     private renderer: Renderer2,
     private ngZone: NgZone,
-    @Inject(DOCUMENT) private document: Document
-  ) {}
+    @Inject(DOCUMENT) private document: Document,
+    @Inject(WEBGL_EFFECTS_CONFIG) config: WebGLEffectsConfig
+  ) {
+    this.containerConfig = config.overlayContainer ?? {};
+    this.overlayZIndex = this.containerConfig.zIndex ?? 1001;
+  }
 
   ngOnInit(): void {
     // Create or get the container for all overlays
@@ -82,12 +94,13 @@ export class TranslateToCanvasCoords
 
   private ensureMeshContainerExists(): void {
     // Check if container already exists
-    let container = this.document.getElementById('image-overlay-container');
+    const id = this.containerConfig.id ?? 'image-overlay-container';
+    let container = this.document.getElementById(id);
 
     if (!container) {
       // Create the container if it doesn't exist
       container = this.renderer.createElement('div');
-      this.renderer.setAttribute(container, 'id', 'image-overlay-container');
+      this.renderer.setAttribute(container, 'id', id);
       this.renderer.setStyle(container, 'position', 'fixed');
       this.renderer.setStyle(container, 'top', '0');
       this.renderer.setStyle(container, 'left', '0');
@@ -100,8 +113,11 @@ export class TranslateToCanvasCoords
         this.overlayZIndex.toString()
       );
 
-      // Add to document body
-      this.renderer.appendChild(this.document.body, container);
+      // Add to the configured parent, document body by default
+      this.renderer.appendChild(
+        containerParent(this.document, this.containerConfig),
+        container
+      );
     }
 
     this.meshContainer = container;
@@ -175,11 +191,21 @@ export class TranslateToCanvasCoords
     this.renderer.appendChild(this.meshContainer, this.overlay);
   }
 
+  // The image's rect relative to the overlay container, snapped to device pixels
+  private measureOverlay(): CanvasSpaceRect {
+    const img = this.el.nativeElement as HTMLImageElement;
+
+    return toCanvasSpace(
+      img.getBoundingClientRect(),
+      this.meshContainer!.getBoundingClientRect(),
+      window.devicePixelRatio
+    );
+  }
+
   private updateOverlayDimensions(): void {
     if (!this.overlay) return;
 
-    const img = this.el.nativeElement as HTMLImageElement;
-    const rect = img.getBoundingClientRect();
+    const rect = this.measureOverlay();
 
     this.renderer.setStyle(this.overlay, 'width', `${rect.width}px`);
     this.renderer.setStyle(this.overlay, 'height', `${rect.height}px`);
@@ -188,8 +214,7 @@ export class TranslateToCanvasCoords
   private updateOverlayPosition(): void {
     if (!this.overlay) return;
 
-    const img = this.el.nativeElement as HTMLImageElement;
-    const rect = img.getBoundingClientRect();
+    const rect = this.measureOverlay();
 
     this.renderer.setStyle(this.overlay, 'left', `${rect.left}px`);
     this.renderer.setStyle(this.overlay, 'top', `${rect.top}px`);
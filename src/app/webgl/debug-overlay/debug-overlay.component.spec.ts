@@ -0,0 +1,34 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { DebugOverlayComponent } from './debug-overlay.component';
+
+describe('DebugOverlayComponent', () => {
+  let component: DebugOverlayComponent;
+  let fixture: ComponentFixture<DebugOverlayComponent>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [DebugOverlayComponent],
+    }).compileComponents();
+
+    fixture = TestBed.createComponent(DebugOverlayComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should start hidden', () => {
+    expect(component.visible()).toBeFalse();
+    expect(fixture.nativeElement.querySelector('aside')).toBeNull();
+  });
+
+  it('should toggle with the backquote key', () => {
+    window.dispatchEvent(new KeyboardEvent('keydown', { key: '`' }));
+    fixture.detectChanges();
+
+    expect(component.visible()).toBeTrue();
+    expect(fixture.nativeElement.querySelector('aside')).not.toBeNull();
+
+    component.close();
+    expect(component.visible()).toBeFalse();
+  });
+});
@@ -0,0 +1,354 @@
+// debug-overlay.component.ts
+import { CommonModule, DOCUMENT } from '@angular/common';
+import {
+  Component,
+  ElementRef,
+  HostListener,
+  Inject,
+  NgZone,
+  OnDestroy,
+  OnInit,
+  ViewChild,
+  isDevMode,
+  signal,
+} from '@angular/core';
+import * as THREE from 'three';
+import { DisposalRegistryService } from '../disposal-registry.service';
+import { EffectParamsService } from '../effect-params.service';
+import {
+  FramePhase,
+  FrameSchedulerService,
+  FrameState,
+  FrameSubscription,
+} from '../frame-scheduler.service';
+import { OffscreenRendererService } from '../offscreen-renderer.service';
+import type { OffscreenWorkerStats } from '../offscreen-protocol';
+import { ParamPanelComponent } from '../param-panel/param-panel.component';
+import { QualityService, QualityTier } from '../quality.service';
+import { ScrollService } from '../scroll.service';
+import { WebGLRendererService } from '../webgl-renderer.service';
+import {
+  WEBGL_EFFECTS_CONFIG,
+  WebGLEffectsConfig,
+} from '../webgl-effects.config';
+
+// Frames kept for the frame-time graph and the FPS average
+const GRAPH_SAMPLES = 120;
+// Milliseconds between overlay refreshes
+const REFRESH_INTERVAL = 250;
+// Frame times at or above this fill the graph's full height
+const GRAPH_MAX_MS = 50;
+const TOGGLE_KEY = '`';
+
+interface UniformRow {
+  name: string;
+  value: string;
+}
+
+interface ShaderRow {
+  label: string;
+  uniforms: UniformRow[];
+}
+
+interface ViewRow {
+  label: string;
+  paused: boolean;
+  materials: number;
+  // One entry per shader material, as a view can hold many meshes
+  shaders: ShaderRow[];
+}
+
+interface DebugSnapshot {
+  fps: number;
+  frameTime: number;
+  tier: QualityTier;
+  locked: boolean;
+  calls: number;
+  triangles: number;
+  geometries: number;
+  textures: number;
+  textureBytes: number;
+  scrollVelocity: number;
+  openScopes: number;
+  views: ViewRow[];
+  workers: { label: string; stats: OffscreenWorkerStats }[];
+}
+
+/**
+ * Development overlay for the WebGL effects. Toggle it with the backquote key
+ * or open the page with `?debug`; provideWebGLEffects() can change the key,
+ * open it on start or disable it (it is only enabled in dev mode by default).
+ * Lists every registered view with the live uniforms of each of its shaders, plus frame times, draw calls and GPU memory from the shared and
+ * worker renderers, lets the quality tier be pinned and the published effect
+ * parameters be tweaked.
+ */
+@Component({
+  selector: 'app-debug-overlay',
+  standalone: true,
+  imports: [CommonModule, ParamPanelComponent],
+  templateUrl: './debug-overlay.component.html',
+  styleUrl: './debug-overlay.component.scss',
+})
+export class DebugOverlayComponent implements OnInit, OnDestroy {
+  @ViewChild('graph') graph?: ElementRef<HTMLCanvasElement>;
+
+  readonly visible = signal(false);
+  readonly snapshot = signal<DebugSnapshot | null>(null);
+  readonly tiers = [
+    { label: 'Auto', tier: null },
+    { label: 'Low', tier: QualityTier.LOW },
+    { label: 'Medium', tier: QualityTier.MEDIUM },
+    { label: 'High', tier: QualityTier.HIGH },
+  ];
+
+  private frameTimes = new Float32Array(GRAPH_SAMPLES);
+  private frameIndex = 0;
+  private frameCount = 0;
+  private readonly debug: NonNullable<WebGLEffectsConfig['debug']>;
+  private readonly enabled: boolean;
+  private frameSubscription: FrameSubscription | null = null;
+  private refreshTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private ngZone: NgZone,
+    private webgl: WebGLRendererService,
+    private offscreen: OffscreenRendererService,
+    private scheduler: FrameSchedulerService,
+    private scroll: ScrollService,
+    private quality: QualityService,
+    private disposal: DisposalRegistryService,
+    readonly effectParams: EffectParamsService,
+    @Inject(DOCUMENT) private document: Document,
+    @Inject(WEBGL_EFFECTS_CONFIG) config: WebGLEffectsConfig
+  ) {
+    this.debug = config.debug ?? {};
+    this.enabled = this.debug.enabled ?? isDevMode();
+  }
+
+  ngOnInit(): void {
+    if (!this.enabled) return;
+
+    const search = this.document.defaultView?.location.search ?? '';
+    if (this.debug.open || new URLSearchParams(search).has('debug')) {
+      this.setVisible(true);
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.setVisible(false);
+  }
+
+  @HostListener('window:keydown', ['$event'])
+  onKeydown(event: KeyboardEvent): void {
+    if (
+      !this.enabled ||
+      event.key !== (this.debug.toggleKey ?? TOGGLE_KEY) ||
+      isEditable(event.target)
+    ) {
+      return;
+    }
+
+    event.preventDefault();
+    this.setVisible(!this.visible());
+  }
+
+  close(): void {
+    this.setVisible(false);
+  }
+
+  lockTier(tier: QualityTier | null): void {
+    this.quality.lock(tier);
+    this.refresh();
+  }
+
+  formatBytes(bytes: number): string {
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+
+  private setVisible(visible: boolean): void {
+    this.visible.set(visible);
+
+    if (visible) {
+      // Sample after the shared renderer has drawn
+      this.ngZone.runOutsideAngular(() => {
+        this.frameSubscription ??= this.scheduler.subscribe(
+          this.sample,
+          FramePhase.RENDER
+        );
+      });
+      // Created inside the zone so each refresh updates the view
+      this.refreshTimer ??= setInterval(
+        () => this.refresh(),
+        REFRESH_INTERVAL
+      );
+      this.refresh();
+    } else {
+      this.frameSubscription?.unsubscribe();
+      this.frameSubscription = null;
+      if (this.refreshTimer !== null) clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+      this.snapshot.set(null);
+    }
+  }
+
+  private readonly sample = ({ delta }: FrameState): void => {
+    if (delta <= 0) return;
+
+    this.frameTimes[this.frameIndex] = delta * 1000;
+    this.frameIndex = (this.frameIndex + 1) % GRAPH_SAMPLES;
+    this.frameCount = Math.min(this.frameCount + 1, GRAPH_SAMPLES);
+  };
+
+  private refresh(): void {
+    const info = this.webgl.info;
+    const textures = new Set<THREE.Texture>();
+    const views = this.webgl.inspect().map(({ label, paused, scene }) => {
+      const materials = collectMaterials(scene);
+      materials.forEach((material) => collectTextures(material, textures));
+      const shaders = materials.filter(
+        (material): material is THREE.ShaderMaterial =>
+          material instanceof THREE.ShaderMaterial
+      );
+
+      return {
+        label,
+        paused,
+        materials: materials.length,
+        shaders: shaders.map((shader, index) => ({
+          label: shader.name || `${shader.type} ${index + 1}`,
+          uniforms: formatUniforms(shader.uniforms),
+        })),
+      };
+    });
+
+    let total = 0;
+    for (let i = 0; i < this.frameCount; i++) total += this.frameTimes[i];
+    const frameTime = this.frameCount ? total / this.frameCount : 0;
+
+    this.snapshot.set({
+      fps: frameTime ? 1000 / frameTime : 0,
+      frameTime,
+      tier: this.quality.tier(),
+      locked: this.quality.isLocked,
+      calls: info?.render.calls ?? 0,
+      triangles: info?.render.triangles ?? 0,
+      geometries: info?.memory.geometries ?? 0,
+      textures: info?.memory.textures ?? 0,
+      textureBytes: estimateBytes(textures),
+      scrollVelocity: this.scroll.velocity(),
+      openScopes: this.disposal.openScopes,
+      views,
+      workers: Array.from(this.offscreen.stats(), ([label, stats]) => ({
+        label,
+        stats,
+      })),
+    });
+
+    this.drawGraph();
+  }
+
+  private drawGraph(): void {
+    const canvas = this.graph?.nativeElement;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    const { width, height } = canvas;
+    const barWidth = width / GRAPH_SAMPLES;
+    context.clearRect(0, 0, width, height);
+
+    // Oldest sample on the left
+    for (let i = 0; i < this.frameCount; i++) {
+      const index =
+        (this.frameIndex - this.frameCount + i + GRAPH_SAMPLES) % GRAPH_SAMPLES;
+      const ms = this.frameTimes[index];
+      const barHeight = (Math.min(ms, GRAPH_MAX_MS) / GRAPH_MAX_MS) * height;
+
+      context.fillStyle =
+        ms > 1000 / 30 ? '#f55' : ms > 1000 / 55 ? '#fc5' : '#5f8';
+      context.fillRect(i * barWidth, height - barHeight, barWidth, barHeight);
+    }
+
+    // 60fps and 30fps budgets
+    context.fillStyle = 'rgba(255, 255, 255, 0.4)';
+    for (const ms of [1000 / 60, 1000 / 30]) {
+      const y = height - (ms / GRAPH_MAX_MS) * height;
+      context.fillRect(0, Math.round(y), width, 1);
+    }
+  }
+}
+
+function isEditable(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable ||
+      ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+  );
+}
+
+function collectMaterials(scene: THREE.Scene): THREE.Material[] {
+  const materials = new Set<THREE.Material>();
+  scene.traverse((object) => {
+    const { material } = object as Partial<THREE.Mesh>;
+    [material ?? []].flat().forEach((m) => materials.add(m));
+  });
+  return Array.from(materials);
+}
+
+// Textures bound as material maps or shader uniforms
+function collectTextures(
+  material: THREE.Material,
+  textures: Set<THREE.Texture>
+): void {
+  const values: unknown[] = Object.values(material);
+  if (material instanceof THREE.ShaderMaterial) {
+    values.push(...Object.values(material.uniforms).map((u) => u.value));
+  }
+
+  for (const value of values) {
+    if (value instanceof THREE.Texture) textures.add(value);
+  }
+}
+
+// RGBA8 estimate of what the textures occupy on the GPU
+function estimateBytes(textures: Set<THREE.Texture>): number {
+  let bytes = 0;
+  textures.forEach((texture) => {
+    const { width = 0, height = 0 } = (texture.image ?? {}) as {
+      width?: number;
+      height?: number;
+    };
+    bytes += width * height * 4 * (texture.generateMipmaps ? 4 / 3 : 1);
+  });
+  return bytes;
+}
+
+function formatUniforms(uniforms: Record<string, THREE.IUniform>): UniformRow[] {
+  return Object.entries(uniforms).map(([name, { value }]) => ({
+    name,
+    value: formatValue(value),
+  }));
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === 'number') return value.toFixed(3);
+  if (value instanceof THREE.Color) return `#${value.getHexString()}`;
+  if (value instanceof THREE.Texture) {
+    const { width, height } = (value.image ?? {}) as {
+      width?: number;
+      height?: number;
+    };
+    return width ? `texture ${width}×${height}` : 'texture (loading)';
+  }
+  if (
+    value instanceof THREE.Vector2 ||
+    value instanceof THREE.Vector3 ||
+    value instanceof THREE.Vector4
+  ) {
+    return value
+      .toArray()
+      .map((n) => n.toFixed(3))
+      .join(', ');
+  }
+  return String(value);
+}
@@ -0,0 +1,81 @@
+import { TestBed } from '@angular/core/testing';
+import * as THREE from 'three';
+
+import { DisposalRegistryService } from './disposal-registry.service';
+
+describe('DisposalRegistryService', () => {
+  let service: DisposalRegistryService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(DisposalRegistryService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should dispose tracked resources in reverse order', () => {
+    const scope = service.createScope({});
+    const order: string[] = [];
+    scope.track({ dispose: () => order.push('first') });
+    scope.add(() => order.push('second'));
+
+    scope.dispose();
+    scope.dispose();
+
+    expect(order).toEqual(['second', 'first']);
+    expect(scope.disposed).toBeTrue();
+  });
+
+  it('should remove tracked objects and dispose their meshes', () => {
+    const scope = service.createScope({});
+    const parent = new THREE.Scene();
+    const geometry = new THREE.PlaneGeometry();
+    const material = new THREE.MeshBasicMaterial();
+    const group = scope.track(new THREE.Group());
+    group.add(new THREE.Mesh(geometry, material));
+    parent.add(group);
+    spyOn(geometry, 'dispose');
+    spyOn(material, 'dispose');
+
+    scope.dispose();
+
+    expect(group.parent).toBeNull();
+    expect(geometry.dispose).toHaveBeenCalled();
+    expect(material.dispose).toHaveBeenCalled();
+  });
+
+  it('should remove listeners on dispose', () => {
+    const scope = service.createScope({});
+    const target = new EventTarget();
+    const listener = jasmine.createSpy('listener');
+    scope.listen(target, 'ping', listener);
+
+    scope.dispose();
+    target.dispatchEvent(new Event('ping'));
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('should dispose and warn about resources added after disposal', () => {
+    const scope = service.createScope({});
+    const resource = { dispose: jasmine.createSpy('dispose') };
+    spyOn(console, 'warn');
+    scope.dispose();
+
+    scope.track(resource);
+
+    expect(resource.dispose).toHaveBeenCalled();
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  it('should count open scopes', () => {
+    const open = service.openScopes;
+    const scope = service.createScope({});
+    expect(service.openScopes).toBe(open + 1);
+
+    scope.dispose();
+    expect(service.openScopes).toBe(open);
+  });
+});
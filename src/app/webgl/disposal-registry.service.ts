@@ -0,0 +1,178 @@
+// disposal-registry.service.ts
+import { DestroyRef, Injectable, isDevMode } from '@angular/core';
+import * as THREE from 'three';
+
+// Geometries, materials, textures, render targets, EffectComposer, passes...
+export interface Disposable {
+  dispose(): void;
+}
+
+// Object3Ds are removed from their parent, and their geometries and
+// materials disposed, when the scope is disposed
+export type Trackable = Disposable | THREE.Object3D;
+
+export interface DisposalScope {
+  readonly disposed: boolean;
+  // Returns `resource` so creation and tracking can be one expression
+  track<T extends Trackable>(resource: T): T;
+  // addEventListener that is removed again on dispose
+  listen<K extends keyof WindowEventMap>(
+    target: Window,
+    type: K,
+    listener: (event: WindowEventMap[K]) => void,
+    options?: AddEventListenerOptions
+  ): void;
+  listen<K extends keyof HTMLElementEventMap>(
+    target: HTMLElement,
+    type: K,
+    listener: (event: HTMLElementEventMap[K]) => void,
+    options?: AddEventListenerOptions
+  ): void;
+  listen(
+    target: EventTarget,
+    type: string,
+    listener: EventListener,
+    options?: AddEventListenerOptions
+  ): void;
+  // Any other teardown, e.g. unsubscribing or killing tweens
+  add(teardown: () => void): void;
+  // Runs every teardown, most recently added first
+  dispose(): void;
+}
+
+// What the leak check knows about a scope. Kept apart from the scope itself,
+// whose teardowns usually reference the owner and would keep it alive.
+interface ScopeRecord {
+  owner: string;
+  size: number;
+  disposed: boolean;
+}
+
+class Scope implements DisposalScope {
+  private teardowns: (() => void)[] = [];
+
+  constructor(
+    private record: ScopeRecord,
+    private onDispose: (record: ScopeRecord) => void
+  ) {}
+
+  get disposed(): boolean {
+    return this.record.disposed;
+  }
+
+  track<T extends Trackable>(resource: T): T {
+    this.add(() => release(resource));
+    return resource;
+  }
+
+  listen(
+    target: EventTarget,
+    type: string,
+    listener: EventListener,
+    options?: AddEventListenerOptions
+  ): void {
+    target.addEventListener(type, listener, options);
+    this.add(() => target.removeEventListener(type, listener, options));
+  }
+
+  add(teardown: () => void): void {
+    if (this.disposed) {
+      // Typically an async load finishing after its owner was destroyed
+      if (isDevMode()) {
+        console.warn(
+          `[DisposalRegistry] ${this.record.owner} registered a resource ` +
+            'after it was destroyed; disposing it immediately.'
+        );
+      }
+      teardown();
+      return;
+    }
+
+    this.teardowns.push(teardown);
+    this.record.size++;
+  }
+
+  dispose(): void {
+    if (this.disposed) return;
+    this.record.disposed = true;
+
+    const teardowns = this.teardowns.reverse();
+    this.teardowns = [];
+    teardowns.forEach((teardown) => teardown());
+    this.onDispose(this.record);
+  }
+}
+
+function release(resource: Trackable): void {
+  if (!(resource instanceof THREE.Object3D)) {
+    resource.dispose();
+    return;
+  }
+
+  resource.removeFromParent();
+  resource.traverse((object) => {
+    const { geometry, material } = object as Partial<THREE.Mesh>;
+    geometry?.dispose();
+    [material ?? []].flat().forEach((m) => m.dispose());
+  });
+}
+
+/**
+ * Ties GPU resources and listeners to the lifetime of the effect that
+ * created them. Effects open a scope bound to their DestroyRef and track
+ * everything they allocate; it is all released when the effect is destroyed.
+ * In dev mode, resources registered after that point and scopes whose owner
+ * is garbage-collected without being disposed are reported.
+ *
+ * Textures from TextureService may be tracked too: disposing frees the GPU
+ * copy only, and any other user re-uploads it on its next draw.
+ */
+@Injectable({ providedIn: 'root' })
+export class DisposalRegistryService {
+  private open = 0;
+
+  private readonly finalizer =
+    isDevMode() && typeof FinalizationRegistry !== 'undefined'
+      ? new FinalizationRegistry<ScopeRecord>((record) =>
+          this.reportLeak(record)
+        )
+      : null;
+
+  // Number of scopes that are still open, e.g. for the debug overlay
+  get openScopes(): number {
+    return this.open;
+  }
+
+  /**
+   * Opens a scope for `owner`, which is only held weakly and named in
+   * warnings. With a `destroyRef` the scope is disposed along with the
+   * owner; otherwise call `dispose()` yourself.
+   */
+  createScope(owner: object, destroyRef?: DestroyRef): DisposalScope {
+    const record: ScopeRecord = {
+      owner: owner.constructor.name,
+      size: 0,
+      disposed: false,
+    };
+    const scope = new Scope(record, (disposed) => {
+      this.open--;
+      this.finalizer?.unregister(disposed);
+    });
+
+    this.open++;
+    this.finalizer?.register(owner, record, record);
+    destroyRef?.onDestroy(() => scope.dispose());
+    return scope;
+  }
+
+  private reportLeak(record: ScopeRecord): void {
+    if (record.disposed) return;
+
+    this.open--;
+    console.warn(
+      `[DisposalRegistry] ${record.owner} was garbage-collected without ` +
+        `disposing ${record.size} tracked resource(s); their GPU memory ` +
+        'has leaked.'
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { DomRasterizer } from './dom-rasterizer';
+
+describe('DomRasterizer', () => {
+  let element: HTMLElement;
+  let rasterizer: DomRasterizer | null;
+
+  beforeEach(() => {
+    element = document.createElement('div');
+    element.style.width = '40px';
+    element.style.height = '20px';
+    element.style.background = 'rgb(255, 0, 0)';
+    document.body.appendChild(element);
+    rasterizer = null;
+  });
+
+  afterEach(() => {
+    rasterizer?.dispose();
+    element.remove();
+  });
+
+  it('should draw the element at the given pixel ratio', async () => {
+    const onRaster = jasmine.createSpy('onRaster');
+    rasterizer = new DomRasterizer(element, { pixelRatio: 2, onRaster });
+    await rasterizer.ready;
+
+    const { canvas } = rasterizer;
+    expect([canvas.width, canvas.height]).toEqual([80, 40]);
+    expect(onRaster).toHaveBeenCalledTimes(1);
+
+    const pixel = canvas.getContext('2d')!.getImageData(40, 20, 1, 1).data;
+    expect(Array.from(pixel)).toEqual([255, 0, 0, 255]);
+  });
+
+  it('should draw the element even while it is transparent', async () => {
+    element.style.opacity = '0';
+    rasterizer = new DomRasterizer(element, { pixelRatio: 1 });
+    await rasterizer.ready;
+
+    const context = rasterizer.canvas.getContext('2d')!;
+    expect(context.getImageData(20, 10, 1, 1).data[3]).toBe(255);
+  });
+
+  it('should draw again when the content changes', async () => {
+    const onRaster = jasmine.createSpy('onRaster');
+    rasterizer = new DomRasterizer(element, { pixelRatio: 1, onRaster });
+    await rasterizer.ready;
+
+    element.style.width = '60px';
+    await new Promise<void>((resolve) => onRaster.and.callFake(resolve));
+
+    expect(rasterizer.canvas.width).toBe(60);
+  });
+});
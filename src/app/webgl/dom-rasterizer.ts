@@ -0,0 +1,274 @@
+// dom-rasterizer.ts
+
+export interface DomRasterizerOptions {
+  // Canvas pixels per CSS pixel; defaults to the device pixel ratio
+  pixelRatio?: number;
+  // Called after every redraw of the canvas, e.g. to upload it again
+  onRaster?: () => void;
+}
+
+// Font files are fetched and encoded once per page, whoever draws with them
+const fontData = new Map<string, Promise<string | null>>();
+
+/**
+ * Draws an element, with its text, web fonts, SVG and styling, into a canvas
+ * that WebGL effects can use as a texture. The element is copied with its
+ * computed styles into an SVG `<foreignObject>`, so it looks as it does on
+ * the page; images and canvases inside it are not drawn. The canvas is drawn
+ * again whenever the element's content, size or fonts change, and once CSS
+ * animations and transitions inside it finish.
+ */
+export class DomRasterizer {
+  readonly canvas: HTMLCanvasElement;
+  // Resolves after the first draw. Rejects if the browser won't let WebGL
+  // read the drawing back, as Safari does for `<foreignObject>`.
+  readonly ready: Promise<void>;
+
+  private readonly pixelRatio: number;
+  private readonly onRaster: () => void;
+  private readonly mutations: MutationObserver;
+  private readonly resizes: ResizeObserver;
+  private frame: number | null = null;
+  // Set while drawing; a change meanwhile draws again once it's done
+  private drawing: Promise<void> | null = null;
+  private dirty = false;
+  private disposed = false;
+
+  constructor(
+    readonly element: HTMLElement,
+    options: DomRasterizerOptions = {}
+  ) {
+    this.pixelRatio = options.pixelRatio ?? window.devicePixelRatio;
+    this.onRaster = options.onRaster ?? (() => {});
+    this.canvas = element.ownerDocument.createElement('canvas');
+
+    this.mutations = new MutationObserver(this.invalidate);
+    this.mutations.observe(element, {
+      subtree: true,
+      childList: true,
+      characterData: true,
+      // Effects hide the element itself with an inline style
+      attributeFilter: ['class', 'href', 'd', 'src'],
+    });
+    this.resizes = new ResizeObserver(this.invalidate);
+    this.resizes.observe(element);
+
+    element.ownerDocument.fonts?.addEventListener(
+      'loadingdone',
+      this.invalidate
+    );
+    element.addEventListener('animationend', this.invalidate);
+    element.addEventListener('transitionend', this.invalidate);
+
+    this.ready = this.draw();
+  }
+
+  // Draws the element again on the next animation frame
+  readonly invalidate = (): void => {
+    if (this.disposed || this.frame !== null) return;
+
+    this.frame = requestAnimationFrame(() => {
+      this.frame = null;
+      if (this.drawing) {
+        this.dirty = true;
+      } else {
+        this.draw().catch(() => {});
+      }
+    });
+  };
+
+  dispose(): void {
+    this.disposed = true;
+    if (this.frame !== null) cancelAnimationFrame(this.frame);
+    this.mutations.disconnect();
+    this.resizes.disconnect();
+    this.element.ownerDocument.fonts?.removeEventListener(
+      'loadingdone',
+      this.invalidate
+    );
+    this.element.removeEventListener('animationend', this.invalidate);
+    this.element.removeEventListener('transitionend', this.invalidate);
+  }
+
+  private draw(): Promise<void> {
+    this.drawing = this.rasterize().finally(() => {
+      this.drawing = null;
+      if (this.dirty) {
+        this.dirty = false;
+        this.invalidate();
+      }
+    });
+    return this.drawing;
+  }
+
+  private async rasterize(): Promise<void> {
+    const element = this.element;
+    // Layout size; transforms on the element are applied to the mesh instead
+    const width = element.offsetWidth;
+    const height = element.offsetHeight;
+    if (!width || !height) return;
+
+    const clone = cloneWithStyles(element);
+    const style = (clone as HTMLElement).style;
+    style.setProperty('opacity', '1');
+    style.setProperty('visibility', 'visible');
+    style.setProperty('transform', 'none');
+    style.setProperty('margin', '0');
+    style.setProperty('width', `${width}px`);
+    style.setProperty('height', `${height}px`);
+    style.setProperty('box-sizing', 'border-box');
+    if (getComputedStyle(element).display === 'inline') {
+      style.setProperty('display', 'inline-block');
+    }
+
+    const fonts = await embedFonts(
+      element.ownerDocument,
+      fontFamilies(element)
+    );
+    const markup = new XMLSerializer().serializeToString(clone);
+    const svg =
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+      `<style><![CDATA[${fonts}]]></style>` +
+      `<foreignObject width="100%" height="100%">${markup}</foreignObject>` +
+      '</svg>';
+
+    const image = new Image();
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+    await image.decode();
+    if (this.disposed) return;
+
+    const canvas = this.canvas;
+    canvas.width = Math.round(width * this.pixelRatio);
+    canvas.height = Math.round(height * this.pixelRatio);
+    const context = canvas.getContext('2d')!;
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    // Throws if the drawing tainted the canvas, which WebGL can't upload
+    context.getImageData(0, 0, 1, 1);
+
+    this.onRaster();
+  }
+}
+
+// A deep copy of `source` with every computed style inlined, as the copy is
+// drawn without the page's stylesheets
+function cloneWithStyles(source: Element): Element {
+  const clone = source.cloneNode(false) as Element;
+
+  const computed = getComputedStyle(source);
+  let css = '';
+  for (let i = 0; i < computed.length; i++) {
+    const name = computed[i];
+    css += `${name}:${computed.getPropertyValue(name)};`;
+  }
+  clone.setAttribute('style', css);
+
+  for (const child of Array.from(source.childNodes)) {
+    if (child instanceof Element) {
+      if (child instanceof HTMLScriptElement) continue;
+      clone.appendChild(cloneWithStyles(child));
+    } else if (child.nodeType === Node.TEXT_NODE) {
+      clone.appendChild(child.cloneNode());
+    }
+  }
+  return clone;
+}
+
+// Lower-cased font families used anywhere in `element`
+function fontFamilies(element: Element): Set<string> {
+  const families = new Set<string>();
+  for (const node of [element, ...Array.from(element.querySelectorAll('*'))]) {
+    for (const family of getComputedStyle(node).fontFamily.split(',')) {
+      families.add(unquote(family));
+    }
+  }
+  return families;
+}
+
+/**
+ * The page's `@font-face` rules for `families`, with their font files inlined
+ * as data URLs; an SVG drawn as an image can't load anything itself.
+ * Cross-origin stylesheets, such as Google Fonts, are fetched again to read
+ * their rules.
+ */
+async function embedFonts(
+  document: Document,
+  families: Set<string>
+): Promise<string> {
+  const rules = await Promise.all(
+    Array.from(document.styleSheets).map((sheet) =>
+      fontFaceRules(sheet, document.baseURI)
+    )
+  );
+
+  const embedded = await Promise.all(
+    rules.flat().map(async ({ css, base }) => {
+      const family = /font-family:\s*([^;]+)/.exec(css)?.[1];
+      if (!family || !families.has(unquote(family))) return '';
+
+      const urls = Array.from(
+        css.matchAll(/url\(\s*['"]?([^'")]+)['"]?\s*\)/g)
+      );
+      for (const [match, url] of urls) {
+        const data = await fetchFontData(new URL(url, base).href);
+        // Without its files the rule would only slow the drawing down
+        if (!data) return '';
+        css = css.replace(match, `url("${data}")`);
+      }
+      return css;
+    })
+  );
+  return embedded.join('\n');
+}
+
+async function fontFaceRules(
+  sheet: CSSStyleSheet,
+  baseURI: string
+): Promise<{ css: string; base: string }[]> {
+  const base = sheet.href ?? baseURI;
+  try {
+    return Array.from(sheet.cssRules)
+      .filter((rule) => rule instanceof CSSFontFaceRule)
+      .map((rule) => ({ css: rule.cssText, base }));
+  } catch {
+    // Cross-origin rules can't be read from the page
+    if (!sheet.href) return [];
+    try {
+      const text = await (await fetch(sheet.href)).text();
+      return (text.match(/@font-face\s*{[^}]*}/g) ?? []).map((css) => ({
+        css,
+        base,
+      }));
+    } catch {
+      return [];
+    }
+  }
+}
+
+function fetchFontData(url: string): Promise<string | null> {
+  let data = fontData.get(url);
+  if (!data) {
+    data = fetch(url)
+      .then((response) => response.blob())
+      .then(
+        (blob) =>
+          new Promise<string>((resolve, reject) => {
+            const reader = new FileReader();
+            reader.onload = () => resolve(reader.result as string);
+            reader.onerror = () => reject(reader.error);
+            reader.readAsDataURL(blob);
+          })
+      )
+      .catch(() => null);
+    fontData.set(url, data);
+  }
+  return data;
+}
+
+function unquote(family: string): string {
+  return family
+    .trim()
+    .replace(/^['"]|['"]$/g, '')
+    .toLowerCase();
+}
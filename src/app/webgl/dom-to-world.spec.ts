@@ -0,0 +1,160 @@
+import * as THREE from 'three';
+
+import {
+  elementBoxToWorld,
+  measureElement,
+  rectToBox,
+  snapToDevicePixel,
+  toCanvasSpace,
+  worldUnitsPerPixel,
+} from './dom-to-world';
+
+describe('dom-to-world', () => {
+  const canvasRect = new DOMRect(0, 0, 1000, 500);
+
+  // A camera at z = 1000 whose frustum is exactly 1 unit per px at z = 0
+  function pixelPerfectCamera(): THREE.PerspectiveCamera {
+    const fov = THREE.MathUtils.radToDeg(2 * Math.atan(250 / 1000));
+    const camera = new THREE.PerspectiveCamera(fov, 2, 1, 2000);
+    camera.position.z = 1000;
+    return camera;
+  }
+
+  describe('snapToDevicePixel', () => {
+    it('should round to the nearest device pixel', () => {
+      expect(snapToDevicePixel(10.3, 1)).toBe(10);
+      expect(snapToDevicePixel(10.3, 2)).toBe(10.5);
+    });
+  });
+
+  describe('toCanvasSpace', () => {
+    it('should offset by the canvas position', () => {
+      const rect = new DOMRect(120, 60, 100, 50);
+      const canvas = new DOMRect(20, 10, 1000, 500);
+
+      expect(toCanvasSpace(rect, canvas)).toEqual({
+        left: 100,
+        top: 50,
+        width: 100,
+        height: 50,
+      });
+    });
+  });
+
+  describe('worldUnitsPerPixel', () => {
+    it('should measure a perspective frustum at the given plane', () => {
+      const camera = pixelPerfectCamera();
+      const scale = worldUnitsPerPixel(camera, 1000, 500);
+
+      expect(scale.x).toBeCloseTo(1);
+      expect(scale.y).toBeCloseTo(1);
+
+      // Halfway to the camera everything is half the size
+      const closer = worldUnitsPerPixel(camera, 1000, 500, 500);
+      expect(closer.y).toBeCloseTo(0.5);
+    });
+
+    it('should measure an orthographic frustum including zoom', () => {
+      const camera = new THREE.OrthographicCamera(-5, 5, 2.5, -2.5);
+      camera.zoom = 2;
+
+      const scale = worldUnitsPerPixel(camera, 1000, 500);
+      expect(scale.x).toBeCloseTo(0.005);
+      expect(scale.y).toBeCloseTo(0.005);
+    });
+  });
+
+  describe('elementBoxToWorld', () => {
+    it('should centre an element in the middle of the canvas on the origin', () => {
+      const box = rectToBox(new DOMRect(450, 225, 100, 50));
+      const world = elementBoxToWorld(box, canvasRect, pixelPerfectCamera());
+
+      expect(world.x).toBeCloseTo(0);
+      expect(world.y).toBeCloseTo(0);
+      expect(world.width).toBeCloseTo(100);
+      expect(world.height).toBeCloseTo(50);
+    });
+
+    it('should flip y and account for canvas offsets', () => {
+      const canvas = new DOMRect(100, 50, 1000, 500);
+      const box = rectToBox(new DOMRect(100, 50, 100, 50));
+      const world = elementBoxToWorld(box, canvas, pixelPerfectCamera());
+
+      // Top-left corner of the canvas
+      expect(world.x).toBeCloseTo(-450);
+      expect(world.y).toBeCloseTo(225);
+    });
+
+    it('should follow an offset orthographic camera', () => {
+      const camera = new THREE.OrthographicCamera(-500, 500, 250, -250);
+      camera.position.set(10, 20, 5);
+
+      const box = rectToBox(new DOMRect(450, 225, 100, 50));
+      const world = elementBoxToWorld(box, canvasRect, camera);
+
+      expect(world.x).toBeCloseTo(10);
+      expect(world.y).toBeCloseTo(20);
+      expect(world.width).toBeCloseTo(100);
+    });
+
+    it('should snap to device pixels when given a pixel ratio', () => {
+      const box = rectToBox(new DOMRect(450.2, 225, 100.3, 50));
+      const world = elementBoxToWorld(box, canvasRect, pixelPerfectCamera(), {
+        devicePixelRatio: 2,
+      });
+
+      expect(world.width).toBeCloseTo(100.5);
+    });
+  });
+
+  describe('measureElement', () => {
+    let element: HTMLElement;
+
+    beforeEach(() => {
+      element = document.createElement('div');
+      element.style.cssText = 'width: 100px; height: 50px;';
+      document.body.appendChild(element);
+    });
+
+    afterEach(() => element.remove());
+
+    it('should use the bounding rect for untransformed elements', () => {
+      const box = measureElement(element);
+
+      expect(box.width).toBe(100);
+      expect(box.height).toBe(50);
+      expect(box.rotation).toBe(0);
+    });
+
+    it('should recover size and rotation from a CSS transform', () => {
+      element.style.transform = 'rotate(90deg) scale(2)';
+
+      const box = measureElement(element);
+      const world = elementBoxToWorld(box, canvasRect, pixelPerfectCamera());
+
+      expect(box.width).toBeCloseTo(200);
+      expect(box.height).toBeCloseTo(100);
+      expect(box.rotation).toBeCloseTo(Math.PI / 2);
+      expect(world.rotation).toBeCloseTo(-Math.PI / 2);
+    });
+
+    it('should include transforms on ancestors', () => {
+      const parent = document.createElement('div');
+      parent.style.transform = 'translate(30px, 10px) rotate(90deg)';
+      document.body.appendChild(parent);
+      parent.appendChild(element);
+      element.style.transform = 'scale(2)';
+
+      const box = measureElement(element);
+      const rect = element.getBoundingClientRect();
+
+      expect(box.width).toBeCloseTo(200);
+      expect(box.height).toBeCloseTo(100);
+      expect(box.rotation).toBeCloseTo(Math.PI / 2);
+      expect(box.centerX).toBeCloseTo(rect.left + rect.width / 2);
+      expect(box.centerY).toBeCloseTo(rect.top + rect.height / 2);
+
+      parent.remove();
+    });
+  });
+});
@@ -0,0 +1,194 @@
+// dom-to-world.ts
+import * as THREE from 'three';
+
+// Cameras are assumed to look straight down -z without rotation
+export type TrackingCamera = THREE.PerspectiveCamera | THREE.OrthographicCamera;
+
+// A rect in CSS px relative to the canvas' top-left corner
+export interface CanvasSpaceRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// An element's on-screen box with its CSS transforms taken into account
+export interface ElementBox {
+  // Centre in viewport CSS px
+  centerX: number;
+  centerY: number;
+  // Untransformed layout size multiplied by the transform's scale
+  width: number;
+  height: number;
+  // Clockwise rotation in radians, as CSS applies it
+  rotation: number;
+}
+
+// A box in world units on the plane z = planeZ
+export interface WorldRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Counter-clockwise rotation about z, as Three.js applies it
+  rotation: number;
+}
+
+export interface DomToWorldOptions {
+  // Z of the plane the mesh sits on. Defaults to 0.
+  planeZ?: number;
+  // Snap to device pixels so textures aren't resampled between them
+  devicePixelRatio?: number;
+}
+
+// Rounds a CSS px value to the nearest device pixel
+export function snapToDevicePixel(value: number, devicePixelRatio = 1): number {
+  return Math.round(value * devicePixelRatio) / devicePixelRatio;
+}
+
+// Converts a viewport rect (e.g. from getBoundingClientRect) into canvas space
+export function toCanvasSpace(
+  rect: DOMRectReadOnly,
+  canvasRect: DOMRectReadOnly,
+  devicePixelRatio = 1
+): CanvasSpaceRect {
+  const left = snapToDevicePixel(rect.left - canvasRect.left, devicePixelRatio);
+  const top = snapToDevicePixel(rect.top - canvasRect.top, devicePixelRatio);
+  const right = snapToDevicePixel(
+    rect.right - canvasRect.left,
+    devicePixelRatio
+  );
+  const bottom = snapToDevicePixel(
+    rect.bottom - canvasRect.top,
+    devicePixelRatio
+  );
+
+  return { left, top, width: right - left, height: bottom - top };
+}
+
+// Builds a box from a plain rect, for elements without their own transform
+export function rectToBox(rect: DOMRectReadOnly): ElementBox {
+  return {
+    centerX: rect.left + rect.width / 2,
+    centerY: rect.top + rect.height / 2,
+    width: rect.width,
+    height: rect.height,
+    rotation: 0,
+  };
+}
+
+/**
+ * Measures an element including the 2D CSS transforms of it and its
+ * ancestors. The bounding rect of a transformed element is axis aligned, so
+ * only its centre is used; the size and rotation come from the layout size
+ * and the combined computed matrices. Reads layout, so call it during the
+ * frame scheduler's read phase.
+ */
+export function measureElement(
+  element: Element,
+  rect: DOMRectReadOnly = element.getBoundingClientRect()
+): ElementBox {
+  const box = rectToBox(rect);
+
+  if (!(element instanceof HTMLElement)) return box;
+
+  // Ancestors scale and rotate the element as well as its own transform
+  let matrix = new DOMMatrix();
+  for (let node: Element | null = element; node; node = node.parentElement) {
+    const transform = getComputedStyle(node).transform;
+    if (transform && transform !== 'none') {
+      matrix = new DOMMatrix(transform).multiply(matrix);
+    }
+  }
+  if (matrix.isIdentity) return box;
+
+  const { a, b, c, d } = matrix;
+
+  return {
+    ...box,
+    width: element.offsetWidth * Math.hypot(a, b),
+    height: element.offsetHeight * Math.hypot(c, d),
+    rotation: Math.atan2(b, a),
+  };
+}
+
+// Number of world units per CSS px on the plane z = planeZ
+export function worldUnitsPerPixel(
+  camera: TrackingCamera,
+  canvasWidth: number,
+  canvasHeight: number,
+  planeZ = 0
+): { x: number; y: number } {
+  if (camera instanceof THREE.OrthographicCamera) {
+    return {
+      x: (camera.right - camera.left) / camera.zoom / canvasWidth,
+      y: (camera.top - camera.bottom) / camera.zoom / canvasHeight,
+    };
+  }
+
+  const distance = camera.position.z - planeZ;
+  const visibleHeight =
+    (2 * Math.tan(THREE.MathUtils.degToRad(camera.fov / 2)) * distance) /
+    camera.zoom;
+  const visibleWidth = visibleHeight * camera.aspect;
+
+  return {
+    x: visibleWidth / canvasWidth,
+    y: visibleHeight / canvasHeight,
+  };
+}
+
+// Maps an element box onto the plane z = planeZ as seen through `camera`
+export function elementBoxToWorld(
+  box: ElementBox,
+  canvasRect: DOMRectReadOnly,
+  camera: TrackingCamera,
+  options: DomToWorldOptions = {}
+): WorldRect {
+  const { planeZ = 0, devicePixelRatio } = options;
+  const scale = worldUnitsPerPixel(
+    camera,
+    canvasRect.width,
+    canvasRect.height,
+    planeZ
+  );
+
+  let { centerX, centerY, width, height } = box;
+  if (devicePixelRatio) {
+    centerX = snapToDevicePixel(centerX, devicePixelRatio);
+    centerY = snapToDevicePixel(centerY, devicePixelRatio);
+    width = snapToDevicePixel(width, devicePixelRatio);
+    height = snapToDevicePixel(height, devicePixelRatio);
+  }
+
+  // Offset from the canvas centre; y is inverted in Three.js compared to DOM
+  const offsetX = centerX - (canvasRect.left + canvasRect.width / 2);
+  const offsetY = -(centerY - (canvasRect.top + canvasRect.height / 2));
+
+  // An orthographic frustum need not be centred on the camera
+  let originX = camera.position.x;
+  let originY = camera.position.y;
+  if (camera instanceof THREE.OrthographicCamera) {
+    originX += (camera.left + camera.right) / 2 / camera.zoom;
+    originY += (camera.top + camera.bottom) / 2 / camera.zoom;
+  }
+
+  return {
+    x: originX + offsetX * scale.x,
+    y: originY + offsetY * scale.y,
+    width: width * scale.x,
+    height: height * scale.y,
+    rotation: -box.rotation,
+  };
+}
+
+// Positions and scales a unit-sized object (e.g. a 1x1 plane) to a world rect
+export function applyWorldRect(
+  object: THREE.Object3D,
+  world: WorldRect,
+  planeZ = 0
+): void {
+  object.position.set(world.x, world.y, planeZ);
+  object.scale.set(world.width, world.height, 1);
+  object.rotation.z = world.rotation;
+}
@@ -0,0 +1,35 @@
+// effect-params.service.ts
+import { Injectable, signal } from '@angular/core';
+import { EffectParamSchema, EffectParams } from './effect-params';
+
+export interface EffectParamsHandle {
+  unpublish(): void;
+}
+
+/**
+ * Effects publish their parameters here while they are alive so tweak
+ * panels, such as the one in the debug overlay, can list them.
+ */
+@Injectable({ providedIn: 'root' })
+export class EffectParamsService {
+  private readonly publishedSignal = signal<
+    readonly EffectParams<EffectParamSchema>[]
+  >([]);
+
+  readonly published = this.publishedSignal.asReadonly();
+
+  publish<S extends EffectParamSchema>(
+    params: EffectParams<S>
+  ): EffectParamsHandle {
+    // Panels only set the keys listed in the params' own schema
+    const entry = params as EffectParams<EffectParamSchema>;
+    this.publishedSignal.update((published) => [...published, entry]);
+
+    return {
+      unpublish: () =>
+        this.publishedSignal.update((published) =>
+          published.filter((p) => p !== entry)
+        ),
+    };
+  }
+}
@@ -0,0 +1,70 @@
+import * as THREE from 'three';
+
+import { EffectParams, defineParams } from './effect-params';
+
+describe('EffectParams', () => {
+  const schema = defineParams({
+    intensity: { type: 'number', min: 0, max: 1, default: 0.4 },
+    enabled: { type: 'boolean', default: true },
+    tint: { type: 'color', default: '#ffffff' },
+  });
+
+  it('should start from the defaults, overridden by initial values', () => {
+    const params = new EffectParams('Test', schema, {
+      intensity: 0.8,
+      enabled: undefined,
+    });
+
+    expect(params.values).toEqual({
+      intensity: 0.8,
+      enabled: true,
+      tint: '#ffffff',
+    });
+  });
+
+  it('should clamp numbers to their range', () => {
+    const params = new EffectParams('Test', schema);
+    params.set('intensity', 5);
+
+    expect(params.values.intensity).toBe(1);
+  });
+
+  it('should keep bound uniforms in step', () => {
+    const params = new EffectParams('Test', schema);
+    const factor = { value: 0 };
+    const color = { value: new THREE.Color() };
+    params.bindUniform('intensity', factor, (value) => value * 2);
+    params.bindUniform('tint', color);
+
+    params.set('intensity', 0.25);
+    params.set('tint', '#ff0000');
+
+    expect(factor.value).toBe(0.5);
+    expect(color.value.getHexString()).toBe('ff0000');
+
+    params.reset();
+    expect(factor.value).toBe(0.8);
+  });
+
+  it('should reset to the initial values', () => {
+    const params = new EffectParams('Test', schema, { intensity: 0.8 });
+    params.set('intensity', 0.1);
+    params.set('enabled', false);
+
+    params.reset();
+
+    expect(params.values.intensity).toBe(0.8);
+    expect(params.values.enabled).toBeTrue();
+  });
+
+  it('should serialise the current values', () => {
+    const params = new EffectParams('Test', schema);
+    params.set('enabled', false);
+
+    expect(JSON.parse(JSON.stringify(params))).toEqual({
+      intensity: 0.4,
+      enabled: false,
+      tint: '#ffffff',
+    });
+  });
+});
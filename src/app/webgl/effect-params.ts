@@ -0,0 +1,144 @@
+// effect-params.ts
+import { Observable, Subject } from 'rxjs';
+import * as THREE from 'three';
+
+export interface NumberParam {
+  type: 'number';
+  min: number;
+  max: number;
+  // Defaults to 1/100th of the range
+  step?: number;
+  default: number;
+  label?: string;
+}
+
+export interface BooleanParam {
+  type: 'boolean';
+  default: boolean;
+  label?: string;
+}
+
+export interface ColorParam {
+  type: 'color';
+  // CSS hex colour, e.g. '#88ccff'
+  default: string;
+  label?: string;
+}
+
+export type EffectParam = NumberParam | BooleanParam | ColorParam;
+
+// Parameter names to their control, in display order
+export type EffectParamSchema = Record<string, EffectParam>;
+
+export type EffectParamValue<P extends EffectParam> = P extends NumberParam
+  ? number
+  : P extends BooleanParam
+    ? boolean
+    : string;
+
+export type EffectParamValues<S extends EffectParamSchema> = {
+  [K in keyof S]: EffectParamValue<S[K]>;
+};
+
+// Identity helper that keeps each parameter's literal `type` for inference
+export function defineParams<S extends EffectParamSchema>(schema: S): S {
+  return schema;
+}
+
+export function defaultParams<S extends EffectParamSchema>(
+  schema: S
+): EffectParamValues<S> {
+  const values = {} as Record<string, unknown>;
+  for (const key of Object.keys(schema)) values[key] = schema[key].default;
+  return values as EffectParamValues<S>;
+}
+
+/**
+ * The tweakable numbers behind one effect instance. Effects read `values`
+ * in their frame callbacks, and bind uniforms so they follow every change
+ * made through `set()`, e.g. from ParamPanelComponent.
+ */
+export class EffectParams<S extends EffectParamSchema = EffectParamSchema> {
+  readonly values: EffectParamValues<S>;
+
+  // The values passed to the constructor over the defaults, for `reset()`
+  private readonly initial: EffectParamValues<S>;
+  private bindings: { key: keyof S; apply: () => void }[] = [];
+  private readonly changeSubject = new Subject<keyof S>();
+
+  // Emits the name of each parameter changed through `set()` or `reset()`
+  readonly changes$: Observable<keyof S> = this.changeSubject.asObservable();
+
+  constructor(
+    readonly label: string,
+    readonly schema: S,
+    initial: Partial<EffectParamValues<S>> = {}
+  ) {
+    this.values = { ...defaultParams(schema) };
+
+    // Inputs may be unset; keep the schema default for those
+    for (const key of Object.keys(initial) as (keyof S)[]) {
+      const value = initial[key];
+      if (value !== undefined) this.values[key] = value;
+    }
+    this.initial = { ...this.values };
+  }
+
+  set<K extends keyof S>(key: K, value: EffectParamValues<S>[K]): void {
+    const param = this.schema[key];
+    if (param.type === 'number') {
+      value = THREE.MathUtils.clamp(
+        value as number,
+        param.min,
+        param.max
+      ) as EffectParamValues<S>[K];
+    }
+
+    if (this.values[key] === value) return;
+    this.values[key] = value;
+    this.notify(key);
+  }
+
+  // Back to the values the effect started with, e.g. its inputs
+  reset(): void {
+    for (const key of Object.keys(this.initial) as (keyof S)[]) {
+      if (this.values[key] === this.initial[key]) continue;
+      this.values[key] = this.initial[key];
+      this.notify(key);
+    }
+  }
+
+  /**
+   * Keeps `uniform.value` in step with `key`, starting now. Colour uniforms
+   * are updated in place; `transform` maps the value for anything else.
+   */
+  bindUniform<K extends keyof S>(
+    key: K,
+    uniform: THREE.IUniform,
+    transform: (value: EffectParamValues<S>[K]) => unknown = (value) => value
+  ): void {
+    const apply = () => {
+      const value = transform(this.values[key]);
+      if (uniform.value instanceof THREE.Color) {
+        uniform.value.set(value as THREE.ColorRepresentation);
+      } else {
+        uniform.value = value;
+      }
+    };
+
+    this.bindings.push({ key, apply });
+    apply();
+  }
+
+  // Current values, e.g. to paste back into the effect's inputs
+  toJSON(): EffectParamValues<S> {
+    return { ...this.values };
+  }
+
+  private notify(key: keyof S): void {
+    for (const binding of this.bindings) {
+      if (binding.key === key) binding.apply();
+    }
+    this.changeSubject.next(key);
+  }
+}
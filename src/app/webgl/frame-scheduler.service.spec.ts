@@ -0,0 +1,54 @@
+import { ErrorHandler } from '@angular/core';
+import { TestBed } from '@angular/core/testing';
+
+import {
+  FramePhase,
+  FrameSchedulerService,
+  FrameSubscription,
+} from './frame-scheduler.service';
+
+describe('FrameSchedulerService', () => {
+  let service: FrameSchedulerService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(FrameSchedulerService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should run callbacks in phase order', (done) => {
+    const calls: string[] = [];
+    const subscriptions: FrameSubscription[] = [];
+
+    subscriptions.push(
+      service.subscribe(() => {
+        calls.push('render');
+        subscriptions.forEach((s) => s.unsubscribe());
+
+        expect(calls).toEqual(['read', 'update', 'render']);
+        done();
+      }, FramePhase.RENDER),
+      service.subscribe(() => calls.push('update'), FramePhase.UPDATE),
+      service.subscribe(() => calls.push('read'), FramePhase.READ)
+    );
+  });
+
+  it('should keep running when a callback throws', (done) => {
+    const handleError = spyOn(TestBed.inject(ErrorHandler), 'handleError');
+    const failing = service.subscribe(() => {
+      throw new Error('broken effect');
+    });
+    let frames = 0;
+    const counting = service.subscribe(() => {
+      if (++frames < 2) return;
+      failing.unsubscribe();
+      counting.unsubscribe();
+
+      expect(handleError).toHaveBeenCalledTimes(2);
+      done();
+    });
+  });
+});
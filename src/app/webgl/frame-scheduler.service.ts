@@ -0,0 +1,140 @@
+// frame-scheduler.service.ts
+import { ErrorHandler, Injectable, NgZone, OnDestroy } from '@angular/core';
+
+// Phases run in ascending order within each frame, so all layout reads happen
+// before any effect writes to the DOM or the GPU
+export enum FramePhase {
+  READ = 0,
+  UPDATE = 1,
+  RENDER = 2,
+}
+
+export interface FrameState {
+  // Seconds since the previous frame, clamped so a backgrounded tab doesn't
+  // produce a single huge step
+  delta: number;
+  // Seconds since the scheduler started
+  elapsed: number;
+  // Monotonically increasing frame counter
+  frame: number;
+}
+
+export type FrameCallback = (state: FrameState) => void;
+
+export interface FrameSubscription {
+  unsubscribe(): void;
+}
+
+interface FrameListener {
+  callback: FrameCallback;
+  phase: FramePhase;
+}
+
+const MAX_DELTA = 0.1;
+
+/**
+ * Single requestAnimationFrame loop shared by every effect. Runs entirely
+ * outside Angular's zone and only while something is subscribed. A callback
+ * that throws is reported to the ErrorHandler without stopping the others.
+ */
+@Injectable({ providedIn: 'root' })
+export class FrameSchedulerService implements OnDestroy {
+  private listeners: FrameListener[] = [];
+  private animationFrameId: number | null = null;
+  private ticking = false;
+  private startTime: number | null = null;
+  private lastTime: number | null = null;
+  private state: FrameState = { delta: 0, elapsed: 0, frame: 0 };
+
+  constructor(
+    private ngZone: NgZone,
+    private errorHandler: ErrorHandler
+  ) {}
+
+  // The most recent frame's timing, for code that runs outside a callback
+  get current(): FrameState {
+    return this.state;
+  }
+
+  subscribe(
+    callback: FrameCallback,
+    phase: FramePhase = FramePhase.UPDATE
+  ): FrameSubscription {
+    const listener: FrameListener = { callback, phase };
+
+    // Keep listeners ordered by phase; within a phase, by subscription order
+    const index = this.listeners.findIndex((l) => l.phase > phase);
+    if (index === -1) {
+      this.listeners.push(listener);
+    } else {
+      this.listeners.splice(index, 0, listener);
+    }
+
+    this.start();
+
+    return {
+      unsubscribe: () => {
+        this.listeners = this.listeners.filter((l) => l !== listener);
+        if (!this.listeners.length) {
+          this.stop();
+        }
+      },
+    };
+  }
+
+  ngOnDestroy(): void {
+    this.listeners = [];
+    this.stop();
+  }
+
+  private start(): void {
+    // A running tick reschedules itself once its callbacks have finished
+    if (this.animationFrameId !== null || this.ticking) return;
+
+    this.ngZone.runOutsideAngular(() => {
+      this.animationFrameId = requestAnimationFrame(this.tick);
+    });
+  }
+
+  private stop(): void {
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+
+    // Don't count the idle gap as one long frame when restarting
+    this.lastTime = null;
+  }
+
+  private readonly tick = (now: number): void => {
+    this.animationFrameId = null;
+    this.ticking = true;
+    this.startTime ??= now;
+
+    const delta = this.lastTime === null ? 0 : (now - this.lastTime) / 1000;
+    this.state = {
+      delta: Math.min(delta, MAX_DELTA),
+      elapsed: (now - this.startTime) / 1000,
+      frame: this.state.frame + 1,
+    };
+    this.lastTime = now;
+
+    // Snapshot so callbacks can unsubscribe mid-frame; skip any removed since
+    for (const listener of [...this.listeners]) {
+      if (!this.listeners.includes(listener)) continue;
+      try {
+        listener.callback(this.state);
+      } catch (error) {
+        this.errorHandler.handleError(error);
+      }
+    }
+
+    this.ticking = false;
+
+    if (this.listeners.length) {
+      this.animationFrameId = requestAnimationFrame(this.tick);
+    } else {
+      this.lastTime = null;
+    }
+  };
+}
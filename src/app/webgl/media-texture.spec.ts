@@ -0,0 +1,115 @@
+import * as THREE from 'three';
+
+import {
+  MediaTexture,
+  backgroundFit,
+  backgroundImageUrl,
+  objectFitTransform,
+} from './media-texture';
+import { TextureService } from './texture.service';
+
+describe('media-texture', () => {
+  describe('objectFitTransform', () => {
+    const box = { width: 200, height: 100 };
+
+    it('should leave fill untouched', () => {
+      const { scale, offset } = objectFitTransform('fill', box, {
+        width: 100,
+        height: 100,
+      });
+      expect(scale.toArray()).toEqual([1, 1]);
+      expect(offset.toArray()).toEqual([0, 0]);
+    });
+
+    it('should crop the longer side for cover', () => {
+      const { scale, offset } = objectFitTransform('cover', box, {
+        width: 100,
+        height: 100,
+      });
+      expect(scale.toArray()).toEqual([1, 0.5]);
+      expect(offset.toArray()).toEqual([0, 0.25]);
+    });
+
+    it('should letterbox for contain', () => {
+      const { scale, offset } = objectFitTransform('contain', box, {
+        width: 100,
+        height: 100,
+      });
+      expect(scale.toArray()).toEqual([2, 1]);
+      expect(offset.toArray()).toEqual([-0.5, 0]);
+    });
+  });
+
+  describe('backgrounds', () => {
+    let element: HTMLElement;
+
+    beforeEach(() => {
+      element = document.createElement('div');
+      document.body.appendChild(element);
+    });
+
+    afterEach(() => element.remove());
+
+    it('should read the background image and size', () => {
+      element.style.backgroundImage = 'url("hero.jpg")';
+      element.style.backgroundSize = 'cover';
+
+      expect(backgroundImageUrl(element)).toMatch(/\/hero\.jpg$/);
+      expect(backgroundFit(element)).toBe('cover');
+    });
+
+    it('should pick the image-set candidate for the pixel ratio', () => {
+      element.style.backgroundImage =
+        'image-set(url("hero.jpg") 1x, url("hero@2x.jpg") 2x)';
+
+      expect(backgroundImageUrl(element, 1)).toMatch(/\/hero\.jpg$/);
+      expect(backgroundImageUrl(element, 1.5)).toMatch(/\/hero@2x\.jpg$/);
+      expect(backgroundImageUrl(element, 3)).toMatch(/\/hero@2x\.jpg$/);
+    });
+
+    it('should ignore gradients', () => {
+      element.style.backgroundImage = 'linear-gradient(red, blue)';
+
+      expect(backgroundImageUrl(element)).toBeNull();
+      expect(backgroundFit(element)).toBe('fill');
+    });
+  });
+
+  describe('MediaTexture', () => {
+    const textures = {} as TextureService;
+
+    it('should upload a canvas every frame only while active', () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = 40;
+      canvas.height = 20;
+      const media = new MediaTexture(canvas, textures);
+      const { version } = media.texture;
+
+      expect(media.texture).toBeInstanceOf(THREE.CanvasTexture);
+      expect(media.size).toEqual({ width: 40, height: 20 });
+
+      media.update();
+      expect(media.texture.version).toBeGreaterThan(version);
+
+      media.setActive(false);
+      const paused = media.texture.version;
+      media.update();
+      expect(media.texture.version).toBe(paused);
+
+      media.dispose();
+    });
+
+    it('should show the poster until the video has a frame', () => {
+      const poster = new THREE.Texture();
+      const video = document.createElement('video');
+      video.poster = 'poster.png';
+      const media = new MediaTexture(video, {
+        load: () => poster,
+        loadAsync: () => Promise.resolve(poster),
+      } as unknown as TextureService);
+
+      expect(media.texture).toBe(poster);
+      media.dispose();
+    });
+  });
+});
@@ -0,0 +1,292 @@
+// media-texture.ts
+import * as THREE from 'three';
+import {
+  TextureOptions,
+  TextureService,
+  applyTextureOptions,
+} from './texture.service';
+
+// Elements an effect can take its picture from
+export type MediaElement =
+  HTMLImageElement | HTMLVideoElement | HTMLCanvasElement;
+
+export interface MediaTextureOptions extends TextureOptions {
+  // For canvases that call `invalidate()` whenever they are drawn, such as
+  // DomRasterizer's, instead of being uploaded every frame
+  manualUpdate?: boolean;
+}
+
+export interface MediaSize {
+  width: number;
+  height: number;
+}
+
+// Maps the mesh's UVs onto the texture: `uv * scale + offset`
+export interface UvTransform {
+  scale: THREE.Vector2;
+  offset: THREE.Vector2;
+}
+
+// A url() in a background-image, with its density inside an image-set()
+const URL_CANDIDATE = /url\(\s*(['"]?)(.+?)\1\s*\)(?:\s+([\d.]+)(?:x|dppx))?/g;
+
+export function isMediaElement(element: Element): element is MediaElement {
+  return (
+    element instanceof HTMLImageElement ||
+    element instanceof HTMLVideoElement ||
+    element instanceof HTMLCanvasElement
+  );
+}
+
+// The image an `<img>` shows, as picked from its srcset or `<picture>`
+export function imageUrl(image: HTMLImageElement): string {
+  return image.currentSrc || image.src;
+}
+
+/**
+ * The URL of the image in `element`'s computed `background-image`, or null
+ * if it has none. From an `image-set()` this is the least dense candidate
+ * that is still sharp at `pixelRatio`, or else the densest.
+ */
+export function backgroundImageUrl(
+  element: Element,
+  pixelRatio = window.devicePixelRatio
+): string | null {
+  const value = getComputedStyle(element).backgroundImage;
+  const candidates = Array.from(
+    value.matchAll(URL_CANDIDATE),
+    ([, , url, density]) => ({ url, density: density ? Number(density) : 1 })
+  );
+  if (!candidates.length) return null;
+  if (!/^(-webkit-)?image-set\(/.test(value)) return candidates[0].url;
+
+  candidates.sort((a, b) => a.density - b.density);
+  return (
+    candidates.find(({ density }) => density >= pixelRatio) ??
+    candidates[candidates.length - 1]
+  ).url;
+}
+
+// The object-fit that draws a background image as its `background-size` does
+export function backgroundFit(element: Element): string {
+  const size = getComputedStyle(element).backgroundSize;
+  return size === 'cover' || size === 'contain' ? size : 'fill';
+}
+
+/**
+ * The UV transform that reproduces CSS `object-fit` for media of `media`
+ * size drawn into a `box`. UVs outside 0..1 afterwards are the letterbox
+ * bars of `contain`. Everything but cover and contain is drawn as `fill`.
+ */
+export function objectFitTransform(
+  fit: string,
+  box: MediaSize,
+  media: MediaSize,
+  target: UvTransform = {
+    scale: new THREE.Vector2(),
+    offset: new THREE.Vector2(),
+  }
+): UvTransform {
+  target.scale.set(1, 1);
+
+  const boxAspect = box.width / box.height;
+  const mediaAspect = media.width / media.height;
+  const contain = fit === 'contain' || fit === 'scale-down';
+  if ((contain || fit === 'cover') && boxAspect && mediaAspect) {
+    // Cover crops the media's longer side, contain pads the box's
+    const ratio = boxAspect / mediaAspect;
+    if (mediaAspect > boxAspect !== contain) {
+      target.scale.x = ratio;
+    } else {
+      target.scale.y = 1 / ratio;
+    }
+  }
+
+  target.offset.set((1 - target.scale.x) / 2, (1 - target.scale.y) / 2);
+  return target;
+}
+
+/**
+ * A texture that follows an `<img>`, `<video>` or `<canvas>`, or any other
+ * element's CSS background image. Images come from TextureService and follow
+ * the `<img>` to whichever srcset candidate it shows; call `refresh()` when a
+ * background may have changed with the breakpoint or pixel ratio. Videos
+ * play into a VideoTexture and show their poster until the first frame has
+ * buffered; canvases are re-uploaded every frame while active, or when
+ * invalidated with `manualUpdate`. Read `texture` every frame, as it changes
+ * once a video can play.
+ */
+export class MediaTexture {
+  // Resolves once there is something to show. Never rejects.
+  readonly ready: Promise<void>;
+
+  private source: THREE.Texture;
+  // The image or background being shown, or loaded to be shown next
+  private url: string | null = null;
+  private readonly poster: THREE.Texture | null = null;
+  private active = true;
+  private readonly manualUpdate: boolean;
+  private readonly options: TextureOptions;
+  // Size of the canvas when last uploaded
+  private uploaded: MediaSize | null = null;
+
+  constructor(
+    readonly element: Element,
+    private readonly textures: TextureService,
+    { manualUpdate = false, ...options }: MediaTextureOptions = {}
+  ) {
+    this.manualUpdate = manualUpdate;
+    this.options = options;
+
+    if (element instanceof HTMLVideoElement) {
+      this.source = new THREE.VideoTexture(element);
+      applyTextureOptions(this.source, options);
+
+      if (element.poster) {
+        this.poster = textures.load(element.poster, options);
+      }
+      this.ready = Promise.race([
+        hasFrame(element)
+          ? Promise.resolve()
+          : new Promise<void>((resolve) =>
+              element.addEventListener('loadeddata', () => resolve(), {
+                once: true,
+              })
+            ),
+        element.poster
+          ? textures.loadAsync(element.poster, options).then(() => {})
+          : new Promise<void>(() => {}),
+      ]);
+    } else if (element instanceof HTMLCanvasElement) {
+      this.source = new THREE.CanvasTexture(element);
+      applyTextureOptions(this.source, options);
+      this.ready = Promise.resolve();
+    } else {
+      this.url = this.currentUrl();
+      if (this.url) {
+        this.source = textures.load(this.url, options);
+        this.ready = textures.loadAsync(this.url, options).then(() => {});
+      } else {
+        this.source = new THREE.Texture();
+        this.ready = Promise.resolve();
+      }
+
+      // Fired again whenever the browser picks another srcset candidate
+      if (element instanceof HTMLImageElement) {
+        element.addEventListener('load', this.refresh);
+      }
+    }
+  }
+
+  get texture(): THREE.Texture {
+    const video = this.element;
+    if (this.poster && video instanceof HTMLVideoElement && !hasFrame(video)) {
+      return this.poster;
+    }
+    return this.source;
+  }
+
+  // Intrinsic size of what is currently shown, or null until it is known
+  get size(): MediaSize | null {
+    const element = this.element;
+    let width = 0;
+    let height = 0;
+
+    if (element instanceof HTMLVideoElement && hasFrame(element)) {
+      width = element.videoWidth;
+      height = element.videoHeight;
+    } else if (element instanceof HTMLCanvasElement) {
+      ({ width, height } = element);
+    } else {
+      // A video's poster, or the image as loaded; an `<img>` may already
+      // show the next one while it loads
+      const texture =
+        element instanceof HTMLVideoElement ? this.poster : this.source;
+      ({ width = 0, height = 0 } = (texture?.image ?? {}) as {
+        width?: number;
+        height?: number;
+      });
+    }
+
+    return width && height ? { width, height } : null;
+  }
+
+  /**
+   * Starts or stops the media with the effect, e.g. as it scrolls in and
+   * out of view. Only videos with the `autoplay` attribute are played.
+   */
+  setActive(active: boolean): void {
+    this.active = active;
+
+    const video = this.element;
+    if (!(video instanceof HTMLVideoElement) || !video.autoplay) return;
+
+    if (active) {
+      // Refused without a user gesture unless muted; the poster stays then
+      video.play().catch(() => {});
+    } else {
+      video.pause();
+    }
+  }
+
+  // Call once per frame before rendering
+  update(): void {
+    // Videos upload their own frames; a canvas can't say when it changed
+    if (
+      this.active &&
+      !this.manualUpdate &&
+      this.element instanceof HTMLCanvasElement
+    ) {
+      this.upload(this.element);
+    }
+  }
+
+  /**
+   * Switches to the image the element shows now, once it has loaded. Keeps
+   * the current texture until then, so nothing blinks out.
+   */
+  readonly refresh = (): void => {
+    const url = this.currentUrl();
+    if (!url || url === this.url) return;
+
+    this.url = url;
+    this.textures.loadAsync(url, this.options).then((texture) => {
+      if (this.url === url) this.source = texture;
+    });
+  };
+
+  // Uploads a `manualUpdate` canvas again before the next render
+  invalidate(): void {
+    if (this.element instanceof HTMLCanvasElement) this.upload(this.element);
+  }
+
+  private upload({ width, height }: HTMLCanvasElement): void {
+    // A resized canvas doesn't fit the texture's GPU storage any more
+    if (
+      this.uploaded &&
+      (this.uploaded.width !== width || this.uploaded.height !== height)
+    ) {
+      this.source.dispose();
+    }
+    this.uploaded = { width, height };
+    this.source.needsUpdate = true;
+  }
+
+  // The URL an image or background element shows, null for anything else
+  private currentUrl(): string | null {
+    const element = this.element;
+    if (element instanceof HTMLImageElement) return imageUrl(element);
+    if (isMediaElement(element)) return null;
+    return backgroundImageUrl(element);
+  }
+
+  dispose(): void {
+    this.element.removeEventListener('load', this.refresh);
+    this.source.dispose();
+    this.poster?.dispose();
+  }
+}
+
+function hasFrame(video: HTMLVideoElement): boolean {
+  return video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA;
+}
@@ -0,0 +1,53 @@
+import { TestBed } from '@angular/core/testing';
+
+import { MotionPreferenceService } from './motion-preference.service';
+
+describe('MotionPreferenceService', () => {
+  let service: MotionPreferenceService;
+
+  beforeEach(() => {
+    localStorage.removeItem('motion-preference');
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(MotionPreferenceService);
+  });
+
+  afterEach(() => localStorage.removeItem('motion-preference'));
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should follow the OS setting by default', () => {
+    expect(service.preference()).toBe('system');
+    expect(service.reduced()).toBe(service.systemReduced());
+  });
+
+  it('should let an override win over the OS setting', () => {
+    service.setPreference('reduce');
+    expect(service.reduced()).toBeTrue();
+
+    service.setPreference('full');
+    expect(service.reduced()).toBeFalse();
+  });
+
+  it('should emit changes to reduced$', () => {
+    service.setPreference('full');
+    const emitted: boolean[] = [];
+    service.reduced$.subscribe((reduced) => emitted.push(reduced));
+
+    service.setPreference('reduce');
+    service.setPreference('reduce');
+
+    expect(emitted).toEqual([false, true]);
+  });
+
+  it('should persist the override', () => {
+    service.setPreference('reduce');
+
+    expect(localStorage.getItem('motion-preference')).toBe('reduce');
+    expect(new MotionPreferenceService(document).preference()).toBe('reduce');
+
+    service.setPreference('system');
+    expect(localStorage.getItem('motion-preference')).toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+// motion-preference.service.ts
+import { DOCUMENT } from '@angular/common';
+import {
+  Inject,
+  Injectable,
+  OnDestroy,
+  computed,
+  signal,
+} from '@angular/core';
+import { BehaviorSubject, Observable, distinctUntilChanged } from 'rxjs';
+
+// 'system' follows the OS prefers-reduced-motion setting
+export type MotionPreference = 'system' | 'reduce' | 'full';
+
+const STORAGE_KEY = 'motion-preference';
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+/**
+ * Decides whether effects may animate. Effects read `reduced()` and show a
+ * static frame or a plain cross-fade instead of scroll-driven distortion.
+ * A user override takes precedence over the OS setting and is remembered.
+ */
+@Injectable({ providedIn: 'root' })
+export class MotionPreferenceService implements OnDestroy {
+  private mediaQuery: MediaQueryList | null = null;
+
+  private readonly systemReducedSignal = signal(false);
+  private readonly preferenceSignal = signal<MotionPreference>('system');
+
+  readonly preference = this.preferenceSignal.asReadonly();
+  readonly systemReduced = this.systemReducedSignal.asReadonly();
+  readonly reduced = computed(() => {
+    const preference = this.preferenceSignal();
+    if (preference === 'system') return this.systemReducedSignal();
+    return preference === 'reduce';
+  });
+
+  private readonly reducedSubject = new BehaviorSubject(false);
+
+  // Emits `reduced()` on subscribe and whenever it changes, for consumers
+  // outside the signal graph such as effect workers
+  readonly reduced$: Observable<boolean> = this.reducedSubject.pipe(
+    distinctUntilChanged()
+  );
+
+  constructor(@Inject(DOCUMENT) private document: Document) {
+    const window = this.document.defaultView;
+
+    if (window?.matchMedia) {
+      this.mediaQuery = window.matchMedia(REDUCED_MOTION_QUERY);
+      this.systemReducedSignal.set(this.mediaQuery.matches);
+      this.mediaQuery.addEventListener('change', this.handleChange);
+    }
+
+    this.preferenceSignal.set(this.readStoredPreference());
+    this.reducedSubject.next(this.reduced());
+  }
+
+  setPreference(preference: MotionPreference): void {
+    this.preferenceSignal.set(preference);
+    this.reducedSubject.next(this.reduced());
+
+    try {
+      if (preference === 'system') {
+        this.document.defaultView?.localStorage.removeItem(STORAGE_KEY);
+      } else {
+        this.document.defaultView?.localStorage.setItem(STORAGE_KEY, preference);
+      }
+    } catch {
+      // Storage can be unavailable (e.g. private browsing); keep it in memory
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.mediaQuery?.removeEventListener('change', this.handleChange);
+  }
+
+  private readonly handleChange = (event: MediaQueryListEvent): void => {
+    this.systemReducedSignal.set(event.matches);
+    this.reducedSubject.next(this.reduced());
+  };
+
+  private readStoredPreference(): MotionPreference {
+    try {
+      const stored =
+        this.document.defaultView?.localStorage.getItem(STORAGE_KEY);
+      return stored === 'reduce' || stored === 'full' ? stored : 'system';
+    } catch {
+      return 'system';
+    }
+  }
+}
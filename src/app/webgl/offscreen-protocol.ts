@@ -0,0 +1,56 @@
+// offscreen-protocol.ts
+import type { QualitySettings } from './quality-settings';
+import type { ScrollBindingValue } from './scroll-progress';
+
+// Shared between the main thread and effect workers, so keep this file free
+// of DOM and Angular imports
+
+// Per-frame input handed to a worker-rendered effect
+export interface OffscreenFrameState {
+  // Seconds since the previous frame
+  delta: number;
+  velocity: number;
+  // Normalised scroll speed (0..1), as ScrollService.speed()
+  speed: number;
+  // Pointer position over the canvas in normalised device coordinates
+  pointer: { x: number; y: number };
+  reduced: boolean;
+}
+
+// Renderer statistics a worker reports about once a second, for the debug
+// overlay
+export interface OffscreenWorkerStats {
+  // Average over the reporting interval, in milliseconds
+  frameTime: number;
+  calls: number;
+  triangles: number;
+  geometries: number;
+  textures: number;
+}
+
+// Main thread -> worker
+export type OffscreenEffectMessage =
+  | {
+      type: 'init';
+      canvas: OffscreenCanvas;
+      width: number;
+      height: number;
+      devicePixelRatio: number;
+      settings: QualitySettings;
+      reduced: boolean;
+    }
+  | { type: 'resize'; width: number; height: number; devicePixelRatio: number }
+  | { type: 'scroll'; velocity: number; speed: number }
+  | { type: 'pointer'; x: number; y: number }
+  | { type: 'quality'; settings: QualitySettings }
+  | { type: 'motion'; reduced: boolean }
+  // Holds a uniform at a scroll-bound value until the next one
+  | { type: 'uniform'; name: string; value: ScrollBindingValue }
+  | { type: 'pause' }
+  | { type: 'resume' };
+
+// Worker -> main thread
+export type OffscreenWorkerMessage =
+  | { type: 'ready' }
+  | { type: 'stats'; stats: OffscreenWorkerStats }
+  | { type: 'error'; message: string };
@@ -0,0 +1,31 @@
+import { TestBed } from '@angular/core/testing';
+
+import { OffscreenRendererService } from './offscreen-renderer.service';
+
+describe('OffscreenRendererService', () => {
+  let service: OffscreenRendererService;
+  let container: HTMLElement;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(OffscreenRendererService);
+
+    container = document.createElement('div');
+    document.body.appendChild(container);
+  });
+
+  afterEach(() => container.remove());
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should fall back when the worker cannot be created', () => {
+    const handle = service.attach(container, () => {
+      throw new Error('blocked');
+    });
+
+    expect(handle).toBeNull();
+    expect(container.querySelector('canvas')).toBeNull();
+  });
+});
@@ -0,0 +1,241 @@
+// offscreen-renderer.service.ts
+import { DOCUMENT } from '@angular/common';
+import { Inject, Injectable, NgZone, signal } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { MotionPreferenceService } from './motion-preference.service';
+import type {
+  OffscreenEffectMessage,
+  OffscreenWorkerMessage,
+  OffscreenWorkerStats,
+} from './offscreen-protocol';
+import { QualityService } from './quality.service';
+import type { ScrollBindingValue } from './scroll-progress';
+import { ScrollService } from './scroll.service';
+
+export interface OffscreenEffectOptions {
+  // Name shown in the debug overlay
+  label?: string;
+  // Called if the worker can't render, after the canvas has been removed.
+  // The effect should fall back to the shared main-thread renderer.
+  onError?: (message: string) => void;
+}
+
+export interface OffscreenEffectHandle {
+  setPaused(paused: boolean): void;
+  // For scroll bindings; the worker re-applies it after every update
+  setUniform(name: string, value: ScrollBindingValue): void;
+  // Terminates the worker and removes its canvas
+  dispose(): void;
+}
+
+/**
+ * Hosts effects that render in a Web Worker. Gives the effect its own canvas
+ * inside `container`, transfers it to the worker with
+ * `transferControlToOffscreen` and forwards scroll, pointer, resize, quality
+ * and motion changes as messages, so a busy main thread can't drop frames.
+ */
+@Injectable({ providedIn: 'root' })
+export class OffscreenRendererService {
+  private supportedResult: boolean | null = null;
+
+  private readonly statsSignal = signal<
+    ReadonlyMap<string, OffscreenWorkerStats>
+  >(new Map());
+
+  // Latest statistics from each running worker, keyed by label
+  readonly stats = this.statsSignal.asReadonly();
+
+  constructor(
+    private ngZone: NgZone,
+    private scroll: ScrollService,
+    private quality: QualityService,
+    private motion: MotionPreferenceService,
+    @Inject(DOCUMENT) private document: Document
+  ) {}
+
+  // Whether workers can render to an OffscreenCanvas with WebGL; probed once
+  get supported(): boolean {
+    this.supportedResult ??= this.probe();
+    return this.supportedResult;
+  }
+
+  /**
+   * Starts `createWorker()` rendering into `container`. Returns null when
+   * worker rendering is unsupported or the worker can't be created, in which
+   * case the caller renders on the main thread instead.
+   */
+  attach(
+    container: HTMLElement,
+    createWorker: () => Worker,
+    options: OffscreenEffectOptions = {}
+  ): OffscreenEffectHandle | null {
+    if (!this.supported) return null;
+
+    const window = this.document.defaultView!;
+    const canvas = this.document.createElement('canvas');
+    Object.assign(canvas.style, {
+      display: 'block',
+      width: '100%',
+      height: '100%',
+    });
+
+    let worker: Worker;
+    try {
+      worker = createWorker();
+    } catch {
+      return null;
+    }
+
+    container.appendChild(canvas);
+
+    const subscriptions = new Subscription();
+    const label = options.label ?? 'Worker';
+    let disposed = false;
+    // Scroll state is dropped while paused, and caught up on resume
+    let paused = false;
+
+    const post = (message: OffscreenEffectMessage, transfer?: Transferable[]) =>
+      worker.postMessage(message, transfer ?? []);
+
+    const dispose = () => {
+      if (disposed) return;
+      disposed = true;
+      subscriptions.unsubscribe();
+      resizeObserver.disconnect();
+      window.removeEventListener('pointermove', onPointerMove);
+      worker.terminate();
+      canvas.remove();
+      this.setStats(label, null);
+    };
+
+    const fail = (message: string) => {
+      if (disposed) return;
+      dispose();
+      options.onError?.(message);
+    };
+
+    const onPointerMove = (event: PointerEvent) => {
+      const rect = container.getBoundingClientRect();
+      if (!rect.width || !rect.height) return;
+      post({
+        type: 'pointer',
+        x: ((event.clientX - rect.left) / rect.width) * 2 - 1,
+        y: -((event.clientY - rect.top) / rect.height) * 2 + 1,
+      });
+    };
+
+    const resizeObserver = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      if (!width || !height) return;
+      post({
+        type: 'resize',
+        width,
+        height,
+        devicePixelRatio: window.devicePixelRatio,
+      });
+    });
+
+    const { width, height } = container.getBoundingClientRect();
+    const offscreen = canvas.transferControlToOffscreen();
+    post(
+      {
+        type: 'init',
+        canvas: offscreen,
+        width: width || 1,
+        height: height || 1,
+        devicePixelRatio: window.devicePixelRatio,
+        settings: this.quality.settings(),
+        reduced: this.motion.reduced(),
+      },
+      [offscreen]
+    );
+
+    this.ngZone.runOutsideAngular(() => {
+      // Stats arrive several times a second; only a failure concerns the app
+      worker.addEventListener(
+        'message',
+        ({ data }: MessageEvent<OffscreenWorkerMessage>) => {
+          if (data.type === 'stats') this.setStats(label, data.stats);
+          if (data.type === 'error') this.ngZone.run(() => fail(data.message));
+        }
+      );
+      worker.addEventListener('error', (event) => {
+        event.preventDefault();
+        this.ngZone.run(() => fail(event.message));
+      });
+
+      resizeObserver.observe(container);
+      window.addEventListener('pointermove', onPointerMove, { passive: true });
+
+      subscriptions.add(
+        this.scroll.state$.subscribe(({ velocity, speed }) => {
+          if (!paused) post({ type: 'scroll', velocity, speed });
+        })
+      );
+      subscriptions.add(
+        this.quality.settings$.subscribe((settings) =>
+          post({ type: 'quality', settings })
+        )
+      );
+      subscriptions.add(
+        this.motion.reduced$.subscribe((reduced) =>
+          post({ type: 'motion', reduced })
+        )
+      );
+    });
+
+    return {
+      setPaused: (value) => {
+        paused = value;
+        if (disposed) return;
+        if (!paused) {
+          post({
+            type: 'scroll',
+            velocity: this.scroll.velocity(),
+            speed: this.scroll.speed(),
+          });
+        }
+        post({ type: paused ? 'pause' : 'resume' });
+      },
+      setUniform: (name, value) => {
+        if (!disposed) post({ type: 'uniform', name, value });
+      },
+      dispose,
+    };
+  }
+
+  private setStats(label: string, stats: OffscreenWorkerStats | null): void {
+    this.statsSignal.update((current) => {
+      const next = new Map(current);
+      if (stats) {
+        next.set(label, stats);
+      } else {
+        next.delete(label);
+      }
+      return next;
+    });
+  }
+
+  private probe(): boolean {
+    const window = this.document.defaultView;
+    if (
+      !window ||
+      typeof window.Worker === 'undefined' ||
+      typeof window.OffscreenCanvas === 'undefined' ||
+      typeof window.ResizeObserver === 'undefined' ||
+      !('transferControlToOffscreen' in HTMLCanvasElement.prototype)
+    ) {
+      return false;
+    }
+
+    // OffscreenCanvas can exist without WebGL support for it
+    try {
+      const canvas = new window.OffscreenCanvas(1, 1);
+      const gl = canvas.getContext('webgl2') ?? canvas.getContext('webgl');
+      gl?.getExtension('WEBGL_lose_context')?.loseContext();
+      return gl !== null;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,205 @@
+// offscreen-worker.ts
+/// <reference lib="webworker" />
+import * as THREE from 'three';
+import type {
+  OffscreenEffectMessage,
+  OffscreenFrameState,
+  OffscreenWorkerMessage,
+} from './offscreen-protocol';
+import type { QualitySettings } from './quality-settings';
+import { ScrollBindingValue, applyUniformValue } from './scroll-progress';
+
+// Clamp long frames (e.g. after a pause) like FrameSchedulerService does
+const MAX_DELTA = 0.1;
+// Seconds between stats messages
+const STATS_INTERVAL = 1;
+
+// What a worker-rendered effect implements; mirrors the main-thread lifecycle
+export interface OffscreenEffect {
+  update(state: OffscreenFrameState): void;
+  render(): void;
+  resize(width: number, height: number): void;
+  // The renderer's pixel ratio has already been capped for the tier
+  applyQuality(settings: QualitySettings): void;
+  dispose(): void;
+  // Uniforms scroll bindings can set by name
+  readonly uniforms?: Record<string, THREE.IUniform>;
+}
+
+export interface OffscreenEffectInit {
+  width: number;
+  height: number;
+  settings: QualitySettings;
+}
+
+export type OffscreenEffectFactory = (
+  renderer: THREE.WebGLRenderer,
+  init: OffscreenEffectInit
+) => OffscreenEffect;
+
+/**
+ * Runs inside an effect worker. Waits for the transferred canvas, builds a
+ * renderer on it and drives the effect from the worker's own animation
+ * frames, fed by the scroll, pointer, resize and quality messages that
+ * OffscreenRendererService forwards from the main thread.
+ */
+export function runOffscreenEffect(factory: OffscreenEffectFactory): void {
+  let renderer: THREE.WebGLRenderer | null = null;
+  let effect: OffscreenEffect | null = null;
+  let settings: QualitySettings | null = null;
+  let devicePixelRatio = 1;
+  let paused = false;
+  let frameId: number | null = null;
+  let lastTime: number | null = null;
+  let statsTime = 0;
+  let statsFrames = 0;
+  // Scroll-bound uniform values, written over the effect's own each frame
+  const uniforms = new Map<string, ScrollBindingValue>();
+
+  const state: OffscreenFrameState = {
+    delta: 0,
+    velocity: 0,
+    speed: 0,
+    pointer: { x: 0, y: 0 },
+    reduced: false,
+  };
+
+  const post = (message: OffscreenWorkerMessage) => postMessage(message);
+
+  const applyPixelRatio = () => {
+    renderer?.setPixelRatio(
+      Math.min(devicePixelRatio, settings?.maxPixelRatio ?? devicePixelRatio)
+    );
+  };
+
+  // Stops rendering for good; the host falls back to the main thread
+  const fail = (error: unknown) => {
+    stop();
+    effect = null;
+    post({ type: 'error', message: String(error) });
+  };
+
+  const tick = (now: number) => {
+    frameId = null;
+    state.delta =
+      lastTime === null ? 0 : Math.min((now - lastTime) / 1000, MAX_DELTA);
+    lastTime = now;
+
+    try {
+      renderer!.info.reset();
+      effect!.update(state);
+      uniforms.forEach((value, name) =>
+        applyUniformValue(effect!.uniforms?.[name], value)
+      );
+      effect!.render();
+    } catch (error) {
+      // e.g. a shader that fails to compile or a lost context
+      fail(error);
+      return;
+    }
+    reportStats(state.delta);
+    schedule();
+  };
+
+  const reportStats = (delta: number) => {
+    statsTime += delta;
+    statsFrames++;
+    if (statsTime < STATS_INTERVAL) return;
+
+    const { render, memory } = renderer!.info;
+    post({
+      type: 'stats',
+      stats: {
+        frameTime: (statsTime / statsFrames) * 1000,
+        calls: render.calls,
+        triangles: render.triangles,
+        geometries: memory.geometries,
+        textures: memory.textures,
+      },
+    });
+    statsTime = 0;
+    statsFrames = 0;
+  };
+
+  const schedule = () => {
+    if (effect && !paused && frameId === null) {
+      frameId = requestAnimationFrame(tick);
+    }
+  };
+
+  const stop = () => {
+    if (frameId !== null) cancelAnimationFrame(frameId);
+    frameId = null;
+    lastTime = null;
+  };
+
+  const handle = (message: OffscreenEffectMessage) => {
+    switch (message.type) {
+      case 'init':
+        devicePixelRatio = message.devicePixelRatio;
+        settings = message.settings;
+        state.reduced = message.reduced;
+
+        renderer = new THREE.WebGLRenderer({
+          canvas: message.canvas,
+          alpha: true,
+          antialias: true,
+          powerPreference: 'high-performance',
+        });
+        applyPixelRatio();
+        // An OffscreenCanvas has no style to update
+        renderer.setSize(message.width, message.height, false);
+        renderer.setClearColor(0x000000, 0);
+        renderer.outputColorSpace = THREE.SRGBColorSpace;
+        // Passes render several times a frame; count them all
+        renderer.info.autoReset = false;
+
+        effect = factory(renderer, message);
+        post({ type: 'ready' });
+        schedule();
+        break;
+      case 'resize':
+        devicePixelRatio = message.devicePixelRatio;
+        applyPixelRatio();
+        renderer?.setSize(message.width, message.height, false);
+        effect?.resize(message.width, message.height);
+        break;
+      case 'scroll':
+        state.velocity = message.velocity;
+        state.speed = message.speed;
+        break;
+      case 'pointer':
+        state.pointer.x = message.x;
+        state.pointer.y = message.y;
+        break;
+      case 'quality':
+        settings = message.settings;
+        applyPixelRatio();
+        effect?.applyQuality(message.settings);
+        break;
+      case 'motion':
+        state.reduced = message.reduced;
+        break;
+      case 'uniform':
+        uniforms.set(message.name, message.value);
+        break;
+      case 'pause':
+        paused = true;
+        stop();
+        break;
+      case 'resume':
+        paused = false;
+        schedule();
+        break;
+    }
+  };
+
+  addEventListener('message', (event: MessageEvent<OffscreenEffectMessage>) => {
+    try {
+      handle(event.data);
+    } catch (error) {
+      // e.g. no WebGL on OffscreenCanvas
+      fail(error);
+    }
+  });
+}
@@ -0,0 +1,65 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import {
+  EffectParamSchema,
+  EffectParams,
+  defineParams,
+} from '../effect-params';
+import { ParamPanelComponent } from './param-panel.component';
+
+describe('ParamPanelComponent', () => {
+  let component: ParamPanelComponent;
+  let fixture: ComponentFixture<ParamPanelComponent>;
+  let params: EffectParams<EffectParamSchema>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [ParamPanelComponent],
+    }).compileComponents();
+
+    params = new EffectParams<EffectParamSchema>(
+      'Test',
+      defineParams({
+        amount: { type: 'number', min: 0, max: 1, default: 0.5 },
+        wireframe: { type: 'boolean', default: false },
+        tint: { type: 'color', default: '#ff0000' },
+      })
+    );
+
+    fixture = TestBed.createComponent(ParamPanelComponent);
+    component = fixture.componentInstance;
+    component.params = params;
+    fixture.detectChanges();
+  });
+
+  it('should render a control per parameter', () => {
+    const element: HTMLElement = fixture.nativeElement;
+
+    expect(element.querySelector('input[type="range"]')).not.toBeNull();
+    expect(element.querySelector('input[type="checkbox"]')).not.toBeNull();
+    expect(element.querySelector('input[type="color"]')).not.toBeNull();
+  });
+
+  it('should apply slider changes to the params', () => {
+    const slider: HTMLInputElement =
+      fixture.nativeElement.querySelector('input[type="range"]');
+    slider.value = '0.25';
+    slider.dispatchEvent(new Event('input'));
+
+    expect(params.values['amount']).toBe(0.25);
+  });
+
+  it('should show the JSON when the clipboard is unavailable', async () => {
+    spyOn(navigator.clipboard, 'writeText').and.returnValue(
+      Promise.reject(new DOMException('Denied', 'NotAllowedError'))
+    );
+
+    await component.copy();
+    fixture.detectChanges();
+
+    const fallback: HTMLTextAreaElement =
+      fixture.nativeElement.querySelector('textarea');
+    expect(component.copied).toBeFalse();
+    expect(JSON.parse(fallback.value)).toEqual(params.toJSON());
+  });
+});
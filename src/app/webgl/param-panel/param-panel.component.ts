@@ -0,0 +1,148 @@
+// param-panel.component.ts
+import { CommonModule } from '@angular/common';
+import { Component, Input, OnDestroy } from '@angular/core';
+import { EffectParamSchema, EffectParams } from '../effect-params';
+
+// How long the copy button reports success
+const COPIED_DURATION = 1500;
+
+interface NumberControl {
+  type: 'number';
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  readonly value: number;
+}
+
+interface BooleanControl {
+  type: 'boolean';
+  key: string;
+  label: string;
+  readonly value: boolean;
+}
+
+interface ColorControl {
+  type: 'color';
+  key: string;
+  label: string;
+  readonly value: string;
+}
+
+// What the template renders for one parameter; `value` reads it live
+type ParamControl = NumberControl | BooleanControl | ColorControl;
+
+/**
+ * Renders a control for every parameter in an effect's schema. Changes are
+ * applied live through `EffectParams.set()`, and the resulting values can be
+ * copied as JSON to paste back into the effect's defaults or inputs. Where
+ * the clipboard is unavailable the JSON is shown to copy by hand.
+ */
+@Component({
+  selector: 'app-param-panel',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './param-panel.component.html',
+  styleUrl: './param-panel.component.scss',
+})
+export class ParamPanelComponent implements OnDestroy {
+  @Input({ required: true }) params!: EffectParams<EffectParamSchema>;
+
+  copied = false;
+  // The JSON to copy by hand after the clipboard refused it
+  copyFallback: string | null = null;
+  private copiedTimeout: ReturnType<typeof setTimeout> | null = null;
+  private cachedControls: ParamControl[] = [];
+  private controlsFor: EffectParams<EffectParamSchema> | null = null;
+
+  // Rebuilt only when `params` changes, so the inputs keep their DOM nodes
+  get controls(): ParamControl[] {
+    if (this.controlsFor !== this.params) {
+      this.controlsFor = this.params;
+      this.cachedControls = Object.keys(this.params.schema).map((key) =>
+        toControl(this.params, key)
+      );
+    }
+    return this.cachedControls;
+  }
+
+  ngOnDestroy(): void {
+    if (this.copiedTimeout) clearTimeout(this.copiedTimeout);
+  }
+
+  onNumber(key: string, event: Event): void {
+    this.params.set(key, (event.target as HTMLInputElement).valueAsNumber);
+  }
+
+  onBoolean(key: string, event: Event): void {
+    this.params.set(key, (event.target as HTMLInputElement).checked);
+  }
+
+  onColor(key: string, event: Event): void {
+    this.params.set(key, (event.target as HTMLInputElement).value);
+  }
+
+  async copy(): Promise<void> {
+    const json = JSON.stringify(this.params.toJSON(), null, 2);
+
+    try {
+      await navigator.clipboard.writeText(json);
+    } catch {
+      // Clipboard access can be denied, or missing outside secure contexts
+      this.copied = false;
+      this.copyFallback = json;
+      return;
+    }
+
+    this.copyFallback = null;
+    this.copied = true;
+    if (this.copiedTimeout) clearTimeout(this.copiedTimeout);
+    this.copiedTimeout = setTimeout(
+      () => (this.copied = false),
+      COPIED_DURATION
+    );
+  }
+}
+
+function toControl(
+  params: EffectParams<EffectParamSchema>,
+  key: string
+): ParamControl {
+  const param = params.schema[key];
+  const label = param.label ?? key;
+
+  // The schema guarantees each value's type matches its parameter's
+  switch (param.type) {
+    case 'number':
+      return {
+        type: 'number',
+        key,
+        label,
+        min: param.min,
+        max: param.max,
+        step: param.step ?? (param.max - param.min) / 100,
+        get value() {
+          return params.values[key] as number;
+        },
+      };
+    case 'boolean':
+      return {
+        type: 'boolean',
+        key,
+        label,
+        get value() {
+          return params.values[key] as boolean;
+        },
+      };
+    case 'color':
+      return {
+        type: 'color',
+        key,
+        label,
+        get value() {
+          return params.values[key] as string;
+        },
+      };
+  }
+}
@@ -0,0 +1,43 @@
+// quality-settings.ts
+
+// The quality tiers, kept free of DOM types and Angular imports so effect
+// workers can share them; QualityService picks the current one
+
+export enum QualityTier {
+  LOW = 0,
+  MEDIUM = 1,
+  HIGH = 2,
+}
+
+// What each effect scales by the current tier
+export interface QualitySettings {
+  // Upper bound for the shared renderer's pixel ratio
+  maxPixelRatio: number;
+  // Multiplier (0..1) for geometry segment counts and subdivision levels
+  geometryDetail: number;
+  // Whether optional post-processing passes such as bloom and FXAA run
+  postProcessing: boolean;
+  // Constraint solver iterations per physics step
+  physicsIterations: number;
+}
+
+export const QUALITY_SETTINGS: Record<QualityTier, QualitySettings> = {
+  [QualityTier.LOW]: {
+    maxPixelRatio: 1,
+    geometryDetail: 0.25,
+    postProcessing: false,
+    physicsIterations: 2,
+  },
+  [QualityTier.MEDIUM]: {
+    maxPixelRatio: 1.5,
+    geometryDetail: 0.5,
+    postProcessing: true,
+    physicsIterations: 3,
+  },
+  [QualityTier.HIGH]: {
+    maxPixelRatio: 2,
+    geometryDetail: 1,
+    postProcessing: true,
+    physicsIterations: 5,
+  },
+};
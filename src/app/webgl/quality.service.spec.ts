@@ -0,0 +1,76 @@
+import { TestBed } from '@angular/core/testing';
+
+import { QualitySettings, QualityService, QualityTier } from './quality.service';
+import { provideWebGLEffects } from './webgl-effects.config';
+
+describe('QualityService', () => {
+  let service: QualityService;
+
+  function run(frames: number, delta: number): void {
+    for (let i = 0; i < frames; i++) service.sample(delta);
+  }
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(QualityService);
+  });
+
+  it('should start at high quality', () => {
+    expect(service.tier()).toBe(QualityTier.HIGH);
+  });
+
+  it('should step down when frames are consistently slow', () => {
+    const emitted: QualitySettings[] = [];
+    service.settings$.subscribe((settings) => emitted.push(settings));
+
+    run(100, 1 / 30);
+
+    expect(service.tier()).toBe(QualityTier.MEDIUM);
+    expect(emitted.length).toBe(2);
+    expect(emitted[1].maxPixelRatio).toBeLessThan(emitted[0].maxPixelRatio);
+  });
+
+  it('should step back up once frames are fast again', () => {
+    run(100, 1 / 30);
+    expect(service.tier()).toBe(QualityTier.MEDIUM);
+
+    // The upgrade delay doubles after a downgrade, to 6 seconds
+    run(60 * 10, 1 / 60);
+    expect(service.tier()).toBe(QualityTier.HIGH);
+  });
+
+  it('should ignore hitches', () => {
+    run(200, 0.5);
+
+    expect(service.tier()).toBe(QualityTier.HIGH);
+  });
+
+  it('should hold a locked tier', () => {
+    service.lock(QualityTier.LOW);
+    run(60 * 20, 1 / 60);
+
+    expect(service.tier()).toBe(QualityTier.LOW);
+    expect(service.settings().postProcessing).toBeFalse();
+  });
+
+  it('should apply the app configuration', () => {
+    TestBed.resetTestingModule();
+    TestBed.configureTestingModule({
+      providers: [
+        provideWebGLEffects({
+          quality: {
+            tier: QualityTier.MEDIUM,
+            settings: { postProcessing: false },
+          },
+        }),
+      ],
+    });
+    service = TestBed.inject(QualityService);
+    run(60 * 20, 1 / 60);
+
+    expect(service.tier()).toBe(QualityTier.MEDIUM);
+    expect(service.isLocked).toBeTrue();
+    expect(service.settings().postProcessing).toBeFalse();
+    expect(service.settings().maxPixelRatio).toBe(1.5);
+  });
+});
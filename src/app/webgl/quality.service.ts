@@ -0,0 +1,117 @@
+// quality.service.ts
+import { Inject, Injectable, computed, signal } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import {
+  QUALITY_SETTINGS,
+  QualitySettings,
+  QualityTier,
+} from './quality-settings';
+import {
+  WEBGL_EFFECTS_CONFIG,
+  WebGLEffectsConfig,
+} from './webgl-effects.config';
+
+export { QUALITY_SETTINGS, QualityTier } from './quality-settings';
+export type { QualitySettings } from './quality-settings';
+
+// Smoothed frame times above this step quality down (~45fps)
+const DOWNGRADE_FRAME_TIME = 1 / 45;
+// ...and below this, held for `upgradeDelay` seconds, step it back up (~55fps)
+const UPGRADE_FRAME_TIME = 1 / 55;
+const INITIAL_UPGRADE_DELAY = 3;
+// Frames to let the average settle after a change before judging again
+const WARMUP_FRAMES = 60;
+// Weight of each new sample in the moving average
+const SMOOTHING = 0.05;
+// Longer frames are hitches (tab switches, GC) rather than sustained load
+const MAX_SAMPLE = 0.1;
+
+/**
+ * Adapts rendering cost to the device. The shared renderer reports the time
+ * of every drawn frame; sustained slow frames step the tier down and
+ * sustained fast ones step it back up. Effects read `settings()` or
+ * subscribe to `settings$` to rebuild geometry and toggle passes. The app can
+ * pin a tier or override settings through provideWebGLEffects().
+ */
+@Injectable({ providedIn: 'root' })
+export class QualityService {
+  private averageFrameTime = 1 / 60;
+  private samples = 0;
+  private fastTime = 0;
+  // Doubles after every downgrade so an unstable device doesn't oscillate
+  private upgradeDelay = INITIAL_UPGRADE_DELAY;
+  private locked = false;
+  // Applied over every tier's settings
+  private readonly overrides: Partial<QualitySettings>;
+
+  private readonly tierSignal = signal(QualityTier.HIGH);
+  private readonly frameTimeSignal = signal(this.averageFrameTime * 1000);
+  private readonly settingsSubject = new BehaviorSubject<QualitySettings>(
+    QUALITY_SETTINGS[QualityTier.HIGH]
+  );
+
+  readonly tier = this.tierSignal.asReadonly();
+  readonly settings = computed(() => this.settingsFor(this.tierSignal()));
+  // Smoothed frame time in milliseconds
+  readonly frameTime = this.frameTimeSignal.asReadonly();
+  // Emits the current settings on subscribe and again on every tier change
+  readonly settings$: Observable<QualitySettings> =
+    this.settingsSubject.asObservable();
+
+  constructor(@Inject(WEBGL_EFFECTS_CONFIG) config: WebGLEffectsConfig) {
+    this.overrides = config.quality?.settings ?? {};
+    this.settingsSubject.next(this.settingsFor(this.tierSignal()));
+    if (config.quality?.tier !== undefined) this.lock(config.quality.tier);
+  }
+
+  // Whether the tier is pinned rather than adapting
+  get isLocked(): boolean {
+    return this.locked;
+  }
+
+  // Records the duration of one drawn frame, in seconds
+  sample(delta: number): void {
+    if (delta <= 0 || delta >= MAX_SAMPLE) return;
+
+    this.averageFrameTime += (delta - this.averageFrameTime) * SMOOTHING;
+    this.frameTimeSignal.set(this.averageFrameTime * 1000);
+
+    if (this.locked || ++this.samples < WARMUP_FRAMES) return;
+
+    const tier = this.tierSignal();
+
+    if (this.averageFrameTime > DOWNGRADE_FRAME_TIME) {
+      this.fastTime = 0;
+      if (tier > QualityTier.LOW) {
+        this.upgradeDelay *= 2;
+        this.changeTier(tier - 1);
+      }
+    } else if (this.averageFrameTime < UPGRADE_FRAME_TIME) {
+      this.fastTime += delta;
+      if (this.fastTime >= this.upgradeDelay && tier < QualityTier.HIGH) {
+        this.changeTier(tier + 1);
+      }
+    } else {
+      this.fastTime = 0;
+    }
+  }
+
+  // Pins a tier, e.g. from the debug overlay; `null` resumes adapting
+  lock(tier: QualityTier | null): void {
+    this.locked = tier !== null;
+    if (tier !== null) this.changeTier(tier);
+  }
+
+  private changeTier(tier: QualityTier): void {
+    this.samples = 0;
+    this.fastTime = 0;
+
+    if (tier === this.tierSignal()) return;
+    this.tierSignal.set(tier);
+    this.settingsSubject.next(this.settingsFor(tier));
+  }
+
+  private settingsFor(tier: QualityTier): QualitySettings {
+    return { ...QUALITY_SETTINGS[tier], ...this.overrides };
+  }
+}
@@ -0,0 +1,59 @@
+import { TestBed } from '@angular/core/testing';
+
+import { ScrollProgressService } from './scroll-progress.service';
+
+describe('ScrollProgressService', () => {
+  let service: ScrollProgressService;
+  let host: HTMLElement;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(ScrollProgressService);
+
+    host = document.createElement('div');
+    host.style.height = '100px';
+    document.body.appendChild(host);
+  });
+
+  afterEach(() => host.remove());
+
+  it('should write the current value when bound', () => {
+    const setUniform = jasmine.createSpy('setUniform');
+    const handle = service.bind(
+      [
+        {
+          uniform: 'uAlpha',
+          keyframes: [
+            { progress: 0, value: 0.5 },
+            { progress: 1, value: 0.5 },
+          ],
+        },
+      ],
+      { host, setUniform }
+    );
+
+    expect(setUniform).toHaveBeenCalledWith('uAlpha', 0.5);
+    handle.release();
+  });
+
+  it('should reject keyframes mixing numbers and vectors', () => {
+    const warn = spyOn(console, 'warn');
+    const setUniform = jasmine.createSpy('setUniform');
+    const handle = service.bind(
+      [
+        {
+          uniform: 'uOffset',
+          keyframes: [
+            { progress: 0, value: 0 },
+            { progress: 1, value: [1, 1] },
+          ],
+        },
+      ],
+      { host, setUniform }
+    );
+
+    expect(warn).toHaveBeenCalled();
+    expect(setUniform).not.toHaveBeenCalled();
+    handle.release();
+  });
+});
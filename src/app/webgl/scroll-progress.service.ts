@@ -0,0 +1,181 @@
+// scroll-progress.service.ts
+import { Injectable, NgZone } from '@angular/core';
+import gsap from 'gsap';
+import { ScrollTrigger } from 'gsap/ScrollTrigger';
+import { EffectParamSchema, EffectParams } from './effect-params';
+import { MotionPreferenceService } from './motion-preference.service';
+import {
+  ScrollBindingValue,
+  ScrollKeyframe,
+  interpolateKeyframes,
+} from './scroll-progress';
+
+/**
+ * Drives an effect value from how far an element has scrolled through a
+ * range, rather than from how fast the page scrolls. Used through the
+ * `scrollBindings` input of the effects that take one; see
+ * ScrollProgressService.
+ */
+export interface ScrollBinding {
+  // A uniform of the effect, e.g. 'uAlpha', or a chained shader stage's
+  // 's0_uStrength'
+  uniform?: string;
+  // Or one of the effect's numeric EffectParams, e.g. 'intensity'. The
+  // binding sets it on every scroll update, overwriting any value tweaked in
+  // the param panel meanwhile
+  param?: string;
+  // Element whose scroll progress drives the value, or a selector for one;
+  // defaults to the effect's host
+  trigger?: Element | string;
+  // ScrollTrigger positions; by default from the trigger's top entering the
+  // bottom of the viewport to its bottom leaving at the top
+  start?: string;
+  end?: string;
+  // Seconds the value takes to catch up with the scrollbar, or true to
+  // follow it exactly. Defaults to true.
+  scrub?: boolean | number;
+  // GSAP ease applied to the progress before the keyframes, e.g.
+  // 'power2.inOut'. Defaults to 'none'.
+  ease?: string;
+  // Values along the range, interpolated linearly; before the first and
+  // after the last the nearest one holds. All numbers or all vectors.
+  keyframes: readonly ScrollKeyframe[];
+  // Show ScrollTrigger's start and end markers while tuning
+  markers?: boolean;
+}
+
+// What an effect offers its scroll bindings
+export interface ScrollBindingTarget<
+  S extends EffectParamSchema = EffectParamSchema,
+> {
+  // Trigger for bindings that don't name their own
+  host: Element;
+  // Scroll container the triggers are measured in; the window if null
+  scroller?: Element | null;
+  // For `param` bindings
+  params?: EffectParams<S>;
+  // For `uniform` bindings; called on scroll and again by `apply()`
+  setUniform?: (name: string, value: ScrollBindingValue) => void;
+}
+
+export interface ScrollBindingHandle {
+  // Writes the bound uniforms again, for effects that overwrite them in
+  // their own per-frame update
+  apply(): void;
+  release(): void;
+}
+
+/**
+ * Binds effect uniforms and parameters to the scroll progress of an element
+ * through GSAP ScrollTrigger, as ScrollBinding describes. Scrub easing is
+ * dropped while motion is reduced, so values follow the scrollbar exactly.
+ */
+@Injectable({ providedIn: 'root' })
+export class ScrollProgressService {
+  constructor(
+    private ngZone: NgZone,
+    private motion: MotionPreferenceService
+  ) {
+    gsap.registerPlugin(ScrollTrigger);
+  }
+
+  bind<S extends EffectParamSchema>(
+    bindings: readonly ScrollBinding[],
+    target: ScrollBindingTarget<S>
+  ): ScrollBindingHandle {
+    // Bindings name parameters by string; isBindable checks the schema
+    const params = target.params as EffectParams<EffectParamSchema> | undefined;
+    // Latest value of each bound uniform
+    const uniforms = new Map<string, ScrollBindingValue>();
+
+    const tweens = this.ngZone.runOutsideAngular(() =>
+      bindings
+        .filter((binding) =>
+          this.isBindable(binding, params, target.setUniform)
+        )
+        .map((binding) => {
+          const trigger = resolveTrigger(binding.trigger, target.host);
+          const state = { progress: 0 };
+          const write = () => {
+            const value = interpolateKeyframes(
+              binding.keyframes,
+              state.progress
+            );
+            if (binding.param !== undefined) {
+              // Checked to be numeric by isBindable
+              params!.set(binding.param, value as number);
+            } else if (binding.uniform !== undefined) {
+              uniforms.set(binding.uniform, value);
+              target.setUniform!(binding.uniform, value);
+            }
+          };
+
+          const tween = gsap.to(state, {
+            progress: 1,
+            ease: binding.ease ?? 'none',
+            onUpdate: write,
+            scrollTrigger: {
+              trigger,
+              scroller: target.scroller ?? undefined,
+              start: binding.start ?? 'top bottom',
+              end: binding.end ?? 'bottom top',
+              scrub: this.motion.reduced() ? true : (binding.scrub ?? true),
+              markers: binding.markers ?? false,
+            },
+          });
+
+          // Start from the page's current position instead of leaving the
+          // effect's own value until the first scroll
+          tween.progress(tween.scrollTrigger?.progress ?? 0);
+          write();
+          return tween;
+        })
+    );
+
+    return {
+      apply: () =>
+        uniforms.forEach((value, name) => target.setUniform?.(name, value)),
+      release: () =>
+        tweens.forEach((tween) => {
+          tween.scrollTrigger?.kill();
+          tween.kill();
+        }),
+    };
+  }
+
+  private isBindable(
+    binding: ScrollBinding,
+    params: EffectParams<EffectParamSchema> | undefined,
+    setUniform: ScrollBindingTarget['setUniform']
+  ): boolean {
+    const shapes = new Set(binding.keyframes.map((k) => typeof k.value));
+
+    let problem = '';
+    if (!binding.keyframes.length) {
+      problem = 'has no keyframes';
+    } else if (shapes.size > 1) {
+      problem = 'mixes number and vector keyframes';
+    } else if (binding.param !== undefined) {
+      if (params?.schema[binding.param]?.type !== 'number') {
+        problem = `names no numeric parameter "${binding.param}"`;
+      } else if (binding.keyframes.some((k) => typeof k.value !== 'number')) {
+        problem = 'binds a parameter to non-numeric keyframes';
+      }
+    } else if (binding.uniform === undefined) {
+      problem = 'names neither a uniform nor a parameter';
+    } else if (!setUniform) {
+      problem = `binds uniform "${binding.uniform}" of an effect without any`;
+    }
+
+    if (problem) console.warn(`ScrollProgressService: binding ${problem}`);
+    return !problem;
+  }
+}
+
+function resolveTrigger(
+  trigger: Element | string | undefined,
+  host: Element
+): Element {
+  if (trigger instanceof Element) return trigger;
+  return (trigger && host.ownerDocument.querySelector(trigger)) || host;
+}
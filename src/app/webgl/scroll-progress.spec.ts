@@ -0,0 +1,56 @@
+import * as THREE from 'three';
+
+import { applyUniformValue, interpolateKeyframes } from './scroll-progress';
+
+describe('scroll-progress', () => {
+  describe('interpolateKeyframes', () => {
+    const keyframes = [
+      { progress: 1, value: 0 },
+      { progress: 0.25, value: 0 },
+      { progress: 0.5, value: 1 },
+    ];
+
+    it('should hold the nearest value outside the keyframes', () => {
+      expect(interpolateKeyframes(keyframes, 0)).toBe(0);
+      expect(interpolateKeyframes(keyframes, 1.5)).toBe(0);
+    });
+
+    it('should interpolate between keyframes in progress order', () => {
+      expect(interpolateKeyframes(keyframes, 0.375)).toBe(0.5);
+      expect(interpolateKeyframes(keyframes, 0.75)).toBe(0.5);
+    });
+
+    it('should interpolate vectors by component', () => {
+      const value = interpolateKeyframes(
+        [
+          { progress: 0, value: [0, 2] },
+          { progress: 1, value: [1, 4] },
+        ],
+        0.5
+      );
+      expect(value).toEqual([0.5, 3]);
+    });
+  });
+
+  describe('applyUniformValue', () => {
+    it('should set numbers and fill vectors and colours in place', () => {
+      const strength = { value: 0 };
+      const offset = { value: new THREE.Vector2() };
+      const color = { value: new THREE.Color() };
+      const vector = offset.value;
+
+      applyUniformValue(strength, 0.5);
+      applyUniformValue(offset, [1, 2]);
+      applyUniformValue(color, [1, 0, 0]);
+
+      expect(strength.value).toBe(0.5);
+      expect(offset.value).toBe(vector);
+      expect(offset.value.toArray()).toEqual([1, 2]);
+      expect(color.value.getHex()).toBe(0xff0000);
+    });
+
+    it('should ignore uniforms the effect does not have', () => {
+      expect(() => applyUniformValue(undefined, 1)).not.toThrow();
+    });
+  });
+});
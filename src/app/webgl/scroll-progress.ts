@@ -0,0 +1,54 @@
+// scroll-progress.ts
+import * as THREE from 'three';
+
+// Kept free of DOM types, GSAP and Angular imports so effect workers can
+// apply bound uniform values too; ScrollBinding, which names elements, is in
+// scroll-progress.service.ts
+
+// A number, or the components of a vector or colour uniform
+export type ScrollBindingValue = number | readonly number[];
+
+export interface ScrollKeyframe {
+  // Position along the scroll range, 0..1
+  progress: number;
+  value: ScrollBindingValue;
+}
+
+// The keyframes' value at `progress`
+export function interpolateKeyframes(
+  keyframes: readonly ScrollKeyframe[],
+  progress: number
+): ScrollBindingValue {
+  const sorted = [...keyframes].sort((a, b) => a.progress - b.progress);
+  const next = sorted.findIndex((keyframe) => keyframe.progress > progress);
+  if (next === 0) return sorted[0].value;
+  if (next === -1) return sorted[sorted.length - 1].value;
+
+  const from = sorted[next - 1];
+  const to = sorted[next];
+  const t = (progress - from.progress) / (to.progress - from.progress);
+
+  if (typeof from.value === 'number' || typeof to.value === 'number') {
+    return THREE.MathUtils.lerp(Number(from.value), Number(to.value), t);
+  }
+  const toValue = to.value;
+  return from.value.map((component, i) =>
+    THREE.MathUtils.lerp(component, toValue[i] ?? component, t)
+  );
+}
+
+// Writes a bound value into a uniform; vectors and colours are set in place
+export function applyUniformValue(
+  uniform: THREE.IUniform | undefined,
+  value: ScrollBindingValue
+): void {
+  if (!uniform) return;
+
+  if (typeof value === 'number') {
+    uniform.value = value;
+  } else if (typeof uniform.value?.fromArray === 'function') {
+    uniform.value.fromArray(value);
+  } else {
+    uniform.value = [...value];
+  }
+}
@@ -0,0 +1,80 @@
+import { TestBed } from '@angular/core/testing';
+
+import { EffectParamsService } from './effect-params.service';
+import { ScrollService, findScrollContainer } from './scroll.service';
+
+describe('ScrollService', () => {
+  let service: ScrollService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(ScrollService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should publish its easing parameters', () => {
+    service.configure({ ease: 0.2 });
+    expect(service.params.values.ease).toBe(0.2);
+    expect(TestBed.inject(EffectParamsService).published()).toContain(
+      service.params
+    );
+  });
+
+  it('should start at rest', () => {
+    expect(service.velocity()).toBe(0);
+    expect(service.velocityX()).toBe(0);
+    expect(service.speed()).toBe(0);
+  });
+
+  it('should follow the window without a container', () => {
+    const handle = service.observe(null);
+    expect(handle.source).toBe(service);
+    handle.release();
+  });
+
+  it('should share one source per scroll container', () => {
+    const container = document.createElement('div');
+    const first = service.observe(container);
+    const second = service.observe(container);
+
+    expect(first.source).not.toBe(service);
+    expect(second.source).toBe(first.source);
+
+    first.release();
+    second.release();
+    expect(service.observe(container).source).not.toBe(first.source);
+  });
+
+  it('should keep a section tracked until every handle untracks it', () => {
+    const section = document.createElement('section');
+    const first = service.trackSection(section);
+    const second = service.trackSection(section);
+    expect(second.progress).toBe(first.progress);
+
+    first.untrack();
+    first.untrack();
+    const third = service.trackSection(section);
+    expect(third.progress).toBe(second.progress);
+
+    second.untrack();
+    third.untrack();
+  });
+
+  it('should find the nearest scrollable ancestor', () => {
+    const carousel = document.createElement('div');
+    carousel.style.overflowX = 'auto';
+    const slide = document.createElement('div');
+    const image = document.createElement('img');
+    slide.appendChild(image);
+    carousel.appendChild(slide);
+    document.body.appendChild(carousel);
+
+    expect(findScrollContainer(image)).toBe(carousel);
+    expect(findScrollContainer(carousel)).toBeNull();
+
+    carousel.remove();
+  });
+});
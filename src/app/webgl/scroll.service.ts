@@ -0,0 +1,380 @@
+// scroll.service.ts
+import { DOCUMENT } from '@angular/common';
+import {
+  ElementRef,
+  Inject,
+  Injectable,
+  NgZone,
+  OnDestroy,
+  Signal,
+  WritableSignal,
+  signal,
+} from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { EffectParams, defineParams } from './effect-params';
+import { EffectParamsService } from './effect-params.service';
+import {
+  FramePhase,
+  FrameSchedulerService,
+  FrameState,
+  FrameSubscription,
+} from './frame-scheduler.service';
+import {
+  WEBGL_EFFECTS_CONFIG,
+  WebGLEffectsConfig,
+} from './webgl-effects.config';
+
+export interface ScrollState {
+  // Smoothed scroll position in px
+  position: number;
+  // How far the smoothed position trails the real one, in px. Positive while
+  // scrolling down, negative while scrolling up, 0 at rest.
+  velocity: number;
+  // The same for the horizontal axis; velocityX is positive while scrolling
+  // right
+  positionX: number;
+  velocityX: number;
+  // Length of the velocity over both axes, normalised to 0..1 against
+  // `maxVelocity`
+  speed: number;
+}
+
+export interface ScrollEasing {
+  // Fraction of the remaining distance covered per 60fps frame
+  ease: number;
+  // Velocity (in px) that maps to a speed of 1
+  maxVelocity: number;
+}
+
+export interface ScrollSectionHandle {
+  // 0 when the element's top reaches the bottom of the viewport, 1 when its
+  // bottom leaves the top of the viewport
+  progress: Signal<number>;
+  untrack(): void;
+}
+
+// Smoothed scrolling of the window or of one scroll container
+export interface ScrollSource {
+  readonly position: Signal<number>;
+  readonly velocity: Signal<number>;
+  readonly positionX: Signal<number>;
+  readonly velocityX: Signal<number>;
+  readonly speed: Signal<number>;
+  readonly state$: Observable<ScrollState>;
+}
+
+export interface ScrollSourceHandle {
+  source: ScrollSource;
+  // Stops tracking the container once nothing else observes it
+  release(): void;
+}
+
+// Where an effect takes its scrolling from: the window (null), a scroll
+// container, or with 'auto' the nearest scrollable ancestor of the effect
+export type ScrollContainer = Element | ElementRef<Element> | 'auto' | null;
+
+// The ScrollEasing defaults, tweakable from the debug overlay
+export const SCROLL_EASING_PARAMS = defineParams({
+  ease: { type: 'number', min: 0.01, max: 1, step: 0.005, default: 0.075 },
+  maxVelocity: { type: 'number', min: 50, max: 2000, step: 10, default: 400 },
+});
+
+// Below this the smoothed position snaps to the target and the loop idles
+const REST_THRESHOLD = 0.01;
+const SCROLLABLE_OVERFLOW = ['auto', 'scroll', 'overlay'];
+
+// Nearest ancestor of `element` with scrollable overflow on either axis, or
+// null when only the window scrolls it
+export function findScrollContainer(element: Element): Element | null {
+  const window = element.ownerDocument.defaultView;
+  const root = element.ownerDocument.scrollingElement;
+
+  for (
+    let parent = element.parentElement;
+    parent && parent !== root && parent !== element.ownerDocument.body;
+    parent = parent.parentElement
+  ) {
+    const style = window?.getComputedStyle(parent);
+    if (
+      style &&
+      (SCROLLABLE_OVERFLOW.includes(style.overflowY) ||
+        SCROLLABLE_OVERFLOW.includes(style.overflowX))
+    ) {
+      return parent;
+    }
+  }
+  return null;
+}
+
+// The element `container` stands for, or null for the window
+export function resolveScrollContainer(
+  container: ScrollContainer,
+  host?: Element
+): Element | null {
+  if (container === 'auto') return host ? findScrollContainer(host) : null;
+  return container instanceof ElementRef ? container.nativeElement : container;
+}
+
+// Smooths one scroll position on both axes. Only ticks while the smoothed
+// position is catching up with the real one.
+class ScrollTracker implements ScrollSource {
+  // Observers of a scroll container; unused for the window
+  users = 0;
+
+  private frameSubscription: FrameSubscription | null = null;
+  private readonly positionSignal = signal(0);
+  private readonly velocitySignal = signal(0);
+  private readonly positionXSignal = signal(0);
+  private readonly velocityXSignal = signal(0);
+  private readonly speedSignal = signal(0);
+  private readonly stateSubject: BehaviorSubject<ScrollState>;
+
+  readonly position = this.positionSignal.asReadonly();
+  readonly velocity = this.velocitySignal.asReadonly();
+  readonly positionX = this.positionXSignal.asReadonly();
+  readonly velocityX = this.velocityXSignal.asReadonly();
+  readonly speed = this.speedSignal.asReadonly();
+  readonly state$: Observable<ScrollState>;
+
+  constructor(
+    // Current scroll offsets as [x, y]
+    private read: () => [number, number],
+    private scheduler: FrameSchedulerService,
+    private params: EffectParams<typeof SCROLL_EASING_PARAMS>,
+    private onStep: () => void = () => {}
+  ) {
+    const [x, y] = read();
+    this.positionXSignal.set(x);
+    this.positionSignal.set(y);
+    this.stateSubject = new BehaviorSubject<ScrollState>({
+      position: y,
+      velocity: 0,
+      positionX: x,
+      velocityX: 0,
+      speed: 0,
+    });
+    this.state$ = this.stateSubject.asObservable();
+  }
+
+  readonly wake = (): void => {
+    this.frameSubscription ??= this.scheduler.subscribe(
+      this.step,
+      FramePhase.READ
+    );
+  };
+
+  dispose(): void {
+    this.frameSubscription?.unsubscribe();
+    this.frameSubscription = null;
+    this.stateSubject.complete();
+  }
+
+  private readonly step = ({ delta }: FrameState): void => {
+    const [targetX, targetY] = this.read();
+
+    // Frame-rate independent lerp towards the real scroll position
+    const { ease, maxVelocity } = this.params.values;
+    const alpha = 1 - Math.pow(1 - ease, delta * 60);
+    const [position, velocity] = approach(this.position(), targetY, alpha);
+    const [positionX, velocityX] = approach(this.positionX(), targetX, alpha);
+
+    const speed = Math.min(Math.hypot(velocity, velocityX) / maxVelocity, 1);
+
+    this.positionSignal.set(position);
+    this.velocitySignal.set(velocity);
+    this.positionXSignal.set(positionX);
+    this.velocityXSignal.set(velocityX);
+    this.speedSignal.set(speed);
+
+    this.onStep();
+
+    this.stateSubject.next({
+      position,
+      velocity,
+      positionX,
+      velocityX,
+      speed,
+    });
+
+    // Idle until the next scroll or resize once everything has settled
+    if (velocity === 0 && velocityX === 0) {
+      this.frameSubscription?.unsubscribe();
+      this.frameSubscription = null;
+    }
+  };
+}
+
+// Moves `position` towards `target`, returning it with the remaining distance
+function approach(
+  position: number,
+  target: number,
+  alpha: number
+): [number, number] {
+  position += (target - position) * alpha;
+
+  const velocity = target - position;
+  if (Math.abs(velocity) < REST_THRESHOLD) return [target, 0];
+  return [position, velocity];
+}
+
+/**
+ * Single source of smoothed scroll position and velocity so every effect
+ * reacts to scrolling identically. The service itself follows the window;
+ * `observe()` gives effects inside an overflow container or a horizontal
+ * carousel the same for that container.
+ */
+@Injectable({ providedIn: 'root' })
+export class ScrollService implements ScrollSource, OnDestroy {
+  // Progress of each tracked section, shared by everyone tracking it
+  private sections = new Map<
+    Element,
+    { progress: WritableSignal<number>; users: number }
+  >();
+  private containers = new Map<Element, ScrollTracker>();
+  private readonly windowTracker: ScrollTracker;
+
+  readonly position: Signal<number>;
+  readonly velocity: Signal<number>;
+  readonly positionX: Signal<number>;
+  readonly velocityX: Signal<number>;
+  readonly speed: Signal<number>;
+  readonly state$: Observable<ScrollState>;
+  readonly params: EffectParams<typeof SCROLL_EASING_PARAMS>;
+
+  constructor(
+    private ngZone: NgZone,
+    private scheduler: FrameSchedulerService,
+    effectParams: EffectParamsService,
+    @Inject(DOCUMENT) private document: Document,
+    @Inject(WEBGL_EFFECTS_CONFIG) config: WebGLEffectsConfig
+  ) {
+    // Starting values, so resetting returns to the app's easing
+    this.params = new EffectParams(
+      'Scroll',
+      SCROLL_EASING_PARAMS,
+      config.scroll
+    );
+    effectParams.publish(this.params);
+
+    const window = this.document.defaultView;
+    this.windowTracker = new ScrollTracker(
+      () => (window ? [window.scrollX, window.scrollY] : [0, 0]),
+      this.scheduler,
+      this.params,
+      () =>
+        this.sections.forEach(({ progress }, element) =>
+          progress.set(this.measureSection(element))
+        )
+    );
+    this.position = this.windowTracker.position;
+    this.velocity = this.windowTracker.velocity;
+    this.positionX = this.windowTracker.positionX;
+    this.velocityX = this.windowTracker.velocityX;
+    this.speed = this.windowTracker.speed;
+    this.state$ = this.windowTracker.state$;
+
+    if (!window) return;
+
+    this.ngZone.runOutsideAngular(() => {
+      window.addEventListener('scroll', this.wake, { passive: true });
+      window.addEventListener('resize', this.wake);
+    });
+  }
+
+  configure(easing: Partial<ScrollEasing>): void {
+    if (easing.ease !== undefined) this.params.set('ease', easing.ease);
+    if (easing.maxVelocity !== undefined) {
+      this.params.set('maxVelocity', easing.maxVelocity);
+    }
+  }
+
+  /**
+   * Scrolling of `container`: the window for null, or with 'auto' the
+   * nearest scrollable ancestor of `host`. Effects sharing a container share
+   * one tracker; release the handle when done.
+   */
+  observe(container: ScrollContainer, host?: Element): ScrollSourceHandle {
+    const element = resolveScrollContainer(container, host);
+    if (!element) return { source: this, release: () => {} };
+
+    let tracker = this.containers.get(element);
+    if (!tracker) {
+      const created = new ScrollTracker(
+        () => [element.scrollLeft, element.scrollTop],
+        this.scheduler,
+        this.params
+      );
+      this.ngZone.runOutsideAngular(() =>
+        element.addEventListener('scroll', created.wake, { passive: true })
+      );
+      this.containers.set(element, created);
+      tracker = created;
+    }
+    tracker.users++;
+
+    let released = false;
+    return {
+      source: tracker,
+      release: () => {
+        if (released) return;
+        released = true;
+        if (--tracker.users > 0) return;
+
+        element.removeEventListener('scroll', tracker.wake);
+        tracker.dispose();
+        this.containers.delete(element);
+      },
+    };
+  }
+
+  // Tracks how far an element has travelled through the viewport
+  trackSection(element: Element): ScrollSectionHandle {
+    let section = this.sections.get(element);
+    if (!section) {
+      section = { progress: signal(this.measureSection(element)), users: 0 };
+      this.sections.set(element, section);
+    }
+    section.users++;
+
+    const tracked = section;
+    let untracked = false;
+    return {
+      progress: tracked.progress.asReadonly(),
+      untrack: () => {
+        if (untracked) return;
+        untracked = true;
+        if (--tracked.users === 0) this.sections.delete(element);
+      },
+    };
+  }
+
+  ngOnDestroy(): void {
+    const window = this.document.defaultView;
+    window?.removeEventListener('scroll', this.wake);
+    window?.removeEventListener('resize', this.wake);
+
+    this.containers.forEach((tracker, element) => {
+      element.removeEventListener('scroll', tracker.wake);
+      tracker.dispose();
+    });
+    this.containers.clear();
+    this.windowTracker.dispose();
+  }
+
+  private readonly wake = (): void => {
+    this.windowTracker.wake();
+    // Containers resize with the window
+    this.containers.forEach((tracker) => tracker.wake());
+  };
+
+  private measureSection(element: Element): number {
+    const rect = element.getBoundingClientRect();
+    const viewportHeight = this.document.defaultView?.innerHeight ?? 0;
+    const distance = rect.height + viewportHeight;
+
+    if (distance <= 0) return 0;
+
+    const progress = (viewportHeight - rect.top) / distance;
+    return Math.min(Math.max(progress, 0), 1);
+  }
+}
@@ -0,0 +1,64 @@
+import { TestBed } from '@angular/core/testing';
+import * as THREE from 'three';
+
+import { TextureErrorEvent, TextureService } from './texture.service';
+
+describe('TextureService', () => {
+  let service: TextureService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(TextureService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should share one texture between requests for the same URL', () => {
+    const a = service.load('robot.png');
+    const b = service.load('/robot.png');
+
+    expect(a).toBe(b);
+  });
+
+  it('should apply default options', () => {
+    const texture = service.load('robot.png');
+
+    expect(texture.colorSpace).toBe(THREE.SRGBColorSpace);
+    expect(texture.minFilter).toBe(THREE.LinearFilter);
+    expect(texture.generateMipmaps).toBeFalse();
+  });
+
+  it('should give non-default options their own texture on the same image', () => {
+    const base = service.load('robot.png');
+    const repeat = service.load('robot.png', {
+      wrapS: THREE.RepeatWrapping,
+      wrapT: THREE.RepeatWrapping,
+    });
+
+    expect(repeat).not.toBe(base);
+    expect(repeat.source).toBe(base.source);
+    expect(repeat.wrapS).toBe(THREE.RepeatWrapping);
+  });
+
+  it('should report progress while loading', () => {
+    service.load('robot.png');
+
+    expect(service.loading()).toBeTrue();
+    expect(service.progress()).toBe(0);
+  });
+
+  it('should fall back and emit an error event when a load fails', async () => {
+    const errors: TextureErrorEvent[] = [];
+    service.errors$.subscribe((event) => errors.push(event));
+
+    const texture = await service.loadAsync('does-not-exist.png');
+
+    expect(errors.length).toBe(1);
+    expect(errors[0].url).toBe('does-not-exist.png');
+    expect(errors[0].texture).toBe(texture);
+    expect(texture.image instanceof HTMLCanvasElement).toBeTrue();
+    expect(service.loading()).toBeFalse();
+  });
+});
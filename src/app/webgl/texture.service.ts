@@ -0,0 +1,216 @@
+// texture.service.ts
+import { DOCUMENT } from '@angular/common';
+import {
+  Inject,
+  Injectable,
+  OnDestroy,
+  computed,
+  signal,
+} from '@angular/core';
+import { Observable, Subject } from 'rxjs';
+import * as THREE from 'three';
+
+export interface TextureOptions {
+  colorSpace?: THREE.ColorSpace;
+  minFilter?: THREE.MinificationTextureFilter;
+  magFilter?: THREE.MagnificationTextureFilter;
+  generateMipmaps?: boolean;
+  wrapS?: THREE.Wrapping;
+  wrapT?: THREE.Wrapping;
+  anisotropy?: number;
+}
+
+// Emitted once per URL that fails to load. The texture has already been
+// given the fallback image by the time this fires.
+export interface TextureErrorEvent {
+  url: string;
+  error: unknown;
+  texture: THREE.Texture;
+}
+
+export interface TextureProgress {
+  loaded: number;
+  total: number;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<TextureOptions, 'anisotropy'>> = {
+  colorSpace: THREE.SRGBColorSpace,
+  minFilter: THREE.LinearFilter,
+  magFilter: THREE.LinearFilter,
+  generateMipmaps: false,
+  wrapS: THREE.ClampToEdgeWrapping,
+  wrapT: THREE.ClampToEdgeWrapping,
+};
+
+interface TextureEntry {
+  // Loaded with the default options; variants share its image
+  base: THREE.Texture;
+  variants: Map<string, THREE.Texture>;
+  ready: Promise<void>;
+}
+
+/**
+ * Loads every texture on the page. Requests for the same URL share one image
+ * download, progress is aggregated across all loads, and a failed load falls
+ * back to a transparent texture instead of leaving the material blank.
+ */
+@Injectable({ providedIn: 'root' })
+export class TextureService implements OnDestroy {
+  private entries = new Map<string, TextureEntry>();
+  private fallbackImage: HTMLCanvasElement | null = null;
+
+  private readonly manager = new THREE.LoadingManager();
+  private readonly loader = new THREE.TextureLoader(this.manager);
+  private readonly errorSubject = new Subject<TextureErrorEvent>();
+  private readonly progressSignal = signal<TextureProgress>({
+    loaded: 0,
+    total: 0,
+  });
+
+  // 0..1 across every texture requested so far; 1 when nothing is pending
+  readonly progress = computed(() => {
+    const { loaded, total } = this.progressSignal();
+    return total ? loaded / total : 1;
+  });
+  readonly loading = computed(() => this.progress() < 1);
+  readonly errors$: Observable<TextureErrorEvent> =
+    this.errorSubject.asObservable();
+
+  constructor(@Inject(DOCUMENT) private document: Document) {
+    this.loader.setCrossOrigin('anonymous');
+
+    this.manager.onProgress = (_url, loaded, total) =>
+      this.progressSignal.set({ loaded, total });
+  }
+
+  /**
+   * Returns a texture for `url` straight away, like TextureLoader.load. Its
+   * image is filled in once loaded, or replaced by the fallback on error.
+   */
+  load(url: string, options: TextureOptions = {}): THREE.Texture {
+    const entry = this.getEntry(url);
+    const key = optionsKey(options);
+    if (!key) return entry.base;
+
+    let variant = entry.variants.get(key);
+    if (!variant) {
+      variant = entry.base.clone();
+      applyTextureOptions(variant, options);
+      entry.variants.set(key, variant);
+    }
+
+    return variant;
+  }
+
+  // Resolves once the image (or the fallback) is in place. Never rejects.
+  async loadAsync(
+    url: string,
+    options: TextureOptions = {}
+  ): Promise<THREE.Texture> {
+    const texture = this.load(url, options);
+    await this.getEntry(url).ready;
+    return texture;
+  }
+
+  ngOnDestroy(): void {
+    this.entries.forEach((entry) => {
+      entry.base.dispose();
+      entry.variants.forEach((variant) => variant.dispose());
+    });
+    this.entries.clear();
+    this.errorSubject.complete();
+  }
+
+  private getEntry(url: string): TextureEntry {
+    // Resolve relative paths so 'a.png' and '/a.png' share a download
+    const key = new URL(url, this.document.baseURI).href;
+
+    let entry = this.entries.get(key);
+    if (entry) return entry;
+
+    // The manager only reports progress as items finish, so count the start
+    this.progressSignal.update((p) => ({ ...p, total: p.total + 1 }));
+
+    let base!: THREE.Texture;
+    const ready = new Promise<void>((resolve) => {
+      base = this.loader.load(
+        key,
+        () => {
+          this.refreshVariants(key);
+          resolve();
+        },
+        undefined,
+        (error) => {
+          this.applyFallback(key);
+          this.errorSubject.next({ url, error, texture: base });
+          resolve();
+        }
+      );
+    });
+    applyTextureOptions(base, {});
+
+    entry = { base, variants: new Map(), ready };
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  // Clones copy the image reference when created, so re-upload them now
+  private refreshVariants(key: string): void {
+    this.entries.get(key)?.variants.forEach((variant) => {
+      variant.needsUpdate = true;
+    });
+  }
+
+  private applyFallback(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+
+    entry.base.image = this.getFallbackImage();
+    entry.base.needsUpdate = true;
+    this.refreshVariants(key);
+  }
+
+  private getFallbackImage(): HTMLCanvasElement {
+    if (!this.fallbackImage) {
+      // A transparent pixel keeps the layout without drawing garbage
+      this.fallbackImage = this.document.createElement('canvas');
+      this.fallbackImage.width = 1;
+      this.fallbackImage.height = 1;
+    }
+
+    return this.fallbackImage;
+  }
+}
+
+// Also used for textures created elsewhere, e.g. from video and canvas
+export function applyTextureOptions(
+  texture: THREE.Texture,
+  options: TextureOptions
+): void {
+  const resolved = { ...DEFAULT_OPTIONS, ...options };
+
+  texture.colorSpace = resolved.colorSpace;
+  texture.minFilter = resolved.minFilter;
+  texture.magFilter = resolved.magFilter;
+  texture.generateMipmaps = resolved.generateMipmaps;
+  texture.wrapS = resolved.wrapS;
+  texture.wrapT = resolved.wrapT;
+  if (resolved.anisotropy !== undefined) {
+    texture.anisotropy = resolved.anisotropy;
+  }
+}
+
+// Stable key for the options that differ from the defaults, '' if none do
+function optionsKey(options: TextureOptions): string {
+  return Object.keys(options)
+    .sort()
+    .filter((name) => {
+      const value = options[name as keyof TextureOptions];
+      return (
+        value !== undefined &&
+        value !== DEFAULT_OPTIONS[name as keyof typeof DEFAULT_OPTIONS]
+      );
+    })
+    .map((name) => `${name}=${options[name as keyof TextureOptions]}`)
+    .join('&');
+}
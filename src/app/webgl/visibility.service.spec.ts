@@ -0,0 +1,41 @@
+import { TestBed } from '@angular/core/testing';
+
+import { VisibilityService } from './visibility.service';
+
+describe('VisibilityService', () => {
+  let service: VisibilityService;
+  let element: HTMLElement;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(VisibilityService);
+
+    element = document.createElement('div');
+    element.style.cssText = 'position: absolute; top: -10000px; height: 10px;';
+    document.body.appendChild(element);
+  });
+
+  afterEach(() => element.remove());
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should report an element outside the viewport as hidden', (done) => {
+    const handle = service.watch(element, (visible) => {
+      expect(visible).toBeFalse();
+      handle.unobserve();
+      done();
+    });
+  });
+
+  it('should stop reporting once unobserved', (done) => {
+    const callback = jasmine.createSpy('callback');
+    service.watch(element, callback).unobserve();
+
+    setTimeout(() => {
+      expect(callback).not.toHaveBeenCalled();
+      done();
+    }, 100);
+  });
+});
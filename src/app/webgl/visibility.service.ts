@@ -0,0 +1,123 @@
+// visibility.service.ts
+import { DOCUMENT } from '@angular/common';
+import { Inject, Injectable, NgZone, OnDestroy } from '@angular/core';
+
+// Called with false when the element leaves the viewport or the tab is
+// hidden, and with true when both are back
+export type VisibilityCallback = (visible: boolean) => void;
+
+export interface VisibilityHandle {
+  unobserve(): void;
+}
+
+interface VisibilityWatcher {
+  callback: VisibilityCallback;
+  intersecting: boolean;
+  visible: boolean;
+}
+
+// Start effects slightly before they scroll into view so the first frame is
+// ready when it appears
+const ROOT_MARGIN = '100px';
+
+/**
+ * Tells effects when their host element is worth simulating and drawing.
+ * One IntersectionObserver is shared by every effect on the page.
+ */
+@Injectable({ providedIn: 'root' })
+export class VisibilityService implements OnDestroy {
+  private observer: IntersectionObserver | null = null;
+  private watchers = new Map<Element, VisibilityWatcher[]>();
+
+  constructor(
+    private ngZone: NgZone,
+    @Inject(DOCUMENT) private document: Document
+  ) {
+    this.ngZone.runOutsideAngular(() => {
+      this.document.addEventListener(
+        'visibilitychange',
+        this.handleVisibilityChange
+      );
+    });
+  }
+
+  /**
+   * Reports visibility changes for `element`. Elements are assumed visible
+   * until the observer's first report, so effects start straight away.
+   */
+  watch(element: Element, callback: VisibilityCallback): VisibilityHandle {
+    const watcher: VisibilityWatcher = {
+      callback,
+      intersecting: true,
+      visible: !this.document.hidden,
+    };
+
+    const watchers = this.watchers.get(element) ?? [];
+    watchers.push(watcher);
+    this.watchers.set(element, watchers);
+    this.getObserver()?.observe(element);
+
+    return {
+      unobserve: () => {
+        const remaining = (this.watchers.get(element) ?? []).filter(
+          (w) => w !== watcher
+        );
+
+        if (remaining.length) {
+          this.watchers.set(element, remaining);
+        } else {
+          this.watchers.delete(element);
+          this.observer?.unobserve(element);
+        }
+      },
+    };
+  }
+
+  ngOnDestroy(): void {
+    this.document.removeEventListener(
+      'visibilitychange',
+      this.handleVisibilityChange
+    );
+    this.observer?.disconnect();
+    this.watchers.clear();
+  }
+
+  private getObserver(): IntersectionObserver | null {
+    if (this.observer) return this.observer;
+
+    // Without the API every effect just stays running
+    if (typeof IntersectionObserver === 'undefined') return null;
+
+    this.ngZone.runOutsideAngular(() => {
+      this.observer = new IntersectionObserver(this.handleIntersection, {
+        rootMargin: ROOT_MARGIN,
+      });
+    });
+
+    return this.observer;
+  }
+
+  private readonly handleIntersection = (
+    entries: IntersectionObserverEntry[]
+  ): void => {
+    for (const entry of entries) {
+      this.watchers.get(entry.target)?.forEach((watcher) => {
+        watcher.intersecting = entry.isIntersecting;
+        this.update(watcher);
+      });
+    }
+  };
+
+  private readonly handleVisibilityChange = (): void => {
+    this.watchers.forEach((watchers) => watchers.forEach((w) => this.update(w)));
+  };
+
+  // Only notify on an actual change so effects can toggle freely
+  private update(watcher: VisibilityWatcher): void {
+    const visible = watcher.intersecting && !this.document.hidden;
+    if (visible === watcher.visible) return;
+
+    watcher.visible = visible;
+    watcher.callback(visible);
+  }
+}
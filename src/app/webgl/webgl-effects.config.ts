@@ -0,0 +1,92 @@
+// webgl-effects.config.ts
+import { InjectionToken, Provider } from '@angular/core';
+import type { QualitySettings, QualityTier } from './quality-settings';
+import type { ScrollContainer, ScrollEasing } from './scroll.service';
+
+// Starting values for the inputs of every `appShaderEffect`
+export interface ShaderEffectDefaults {
+  // A ShaderEffectType or registered preset name
+  effectType?: string;
+  pointerReactive?: boolean;
+  scrollContainer?: ScrollContainer;
+  intensity?: number;
+  scrollSensitivity?: number;
+  animationSpeed?: number;
+  pixelSize?: number;
+  frequency?: number;
+  amplitude?: number;
+  // A ShaderTransitionType
+  transition?: string;
+  transitionDuration?: number;
+  transitionMap?: string;
+}
+
+// A fixed, full-viewport layer that effects draw into
+export interface EffectContainerConfig {
+  // translateToCanvasCoords reuses an element that already has this id
+  id?: string;
+  zIndex?: number;
+  // Element the layer is appended to, or a selector for it; the body if unset
+  // or not found
+  parent?: HTMLElement | string;
+}
+
+/**
+ * App-wide settings for the WebGL effects. Everything is optional and falls
+ * back to the built-in defaults; inputs set on an instance still win over
+ * `shaderEffect`.
+ */
+export interface WebGLEffectsConfig {
+  shaderEffect?: ShaderEffectDefaults;
+  // Scroll smoothing shared by every effect
+  scroll?: Partial<ScrollEasing>;
+  // The shared WebGL canvas
+  canvasContainer?: EffectContainerConfig;
+  // The layer translateToCanvasCoords draws its overlays in
+  overlayContainer?: EffectContainerConfig;
+  quality?: {
+    // Pins a tier instead of adapting to the frame rate
+    tier?: QualityTier;
+    // Applied over every tier's settings, e.g. `{ postProcessing: false }`
+    // to turn FXAA and bloom off everywhere
+    settings?: Partial<QualitySettings>;
+  };
+  debug?: {
+    // Whether the debug overlay can be opened at all; defaults to isDevMode()
+    enabled?: boolean;
+    // Open it on start, as `?debug` does
+    open?: boolean;
+    // Key that toggles it; defaults to the backquote
+    toggleKey?: string;
+  };
+}
+
+export const WEBGL_EFFECTS_CONFIG = new InjectionToken<WebGLEffectsConfig>(
+  'WEBGL_EFFECTS_CONFIG',
+  { providedIn: 'root', factory: () => ({}) }
+);
+
+// For the application's providers in app.config.ts
+export function provideWebGLEffects(config: WebGLEffectsConfig): Provider[] {
+  return [{ provide: WEBGL_EFFECTS_CONFIG, useValue: config }];
+}
+
+// `defaults` without its unset entries, to assign over an instance's own
+export function definedDefaults<T extends object>(
+  defaults: T | undefined
+): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(defaults ?? {}).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
+
+// The element `config.parent` names, or the body
+export function containerParent(
+  document: Document,
+  { parent }: EffectContainerConfig
+): HTMLElement {
+  if (parent instanceof HTMLElement) return parent;
+  return (
+    (parent && document.querySelector<HTMLElement>(parent)) || document.body
+  );
+}
@@ -0,0 +1,68 @@
+import { TestBed } from '@angular/core/testing';
+import * as THREE from 'three';
+
+import {
+  WebGLRendererService,
+  markMaterialForReupload,
+} from './webgl-renderer.service';
+
+describe('WebGLRendererService', () => {
+  let service: WebGLRendererService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(WebGLRendererService);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should pause and notify views while the context is lost', () => {
+    const onContextLost = jasmine.createSpy('onContextLost');
+    const view = service.register({
+      scene: new THREE.Scene(),
+      camera: new THREE.PerspectiveCamera(),
+      onContextLost,
+    });
+
+    const event = new Event('webglcontextlost', { cancelable: true });
+    service.domElement.dispatchEvent(event);
+
+    expect(service.contextLost()).toBeTrue();
+    expect(event.defaultPrevented).toBeTrue();
+    expect(onContextLost).toHaveBeenCalled();
+
+    view.unregister();
+    service.ngOnDestroy();
+  });
+
+  it('should list registered views for inspection', () => {
+    const view = service.register({
+      label: 'Blob',
+      scene: new THREE.Scene(),
+      camera: new THREE.PerspectiveCamera(),
+    });
+    view.setPaused(true);
+
+    expect(service.inspect()).toEqual([
+      jasmine.objectContaining({ label: 'Blob', paused: true }),
+    ]);
+
+    view.unregister();
+    service.ngOnDestroy();
+  });
+
+  it('should only re-upload textures that have an image', () => {
+    const loaded = new THREE.Texture(document.createElement('canvas'));
+    const pending = new THREE.Texture();
+    const material = new THREE.ShaderMaterial({
+      uniforms: { a: { value: loaded }, b: { value: pending } },
+    });
+
+    markMaterialForReupload(material);
+
+    expect(loaded.version).toBe(1);
+    expect(pending.version).toBe(0);
+  });
+});
@@ -0,0 +1,399 @@
+// webgl-renderer.service.ts
+import { DOCUMENT } from '@angular/common';
+import { Inject, Injectable, OnDestroy, signal } from '@angular/core';
+import { Subscription } from 'rxjs';
+import * as THREE from 'three';
+import {
+  FramePhase,
+  FrameSchedulerService,
+  FrameSubscription,
+} from './frame-scheduler.service';
+import { QualityService } from './quality.service';
+import {
+  WEBGL_EFFECTS_CONFIG,
+  WebGLEffectsConfig,
+  containerParent,
+} from './webgl-effects.config';
+import { WebGLSupportService } from './webgl-support.service';
+
+// A scene/camera pair drawn into one region of the shared canvas
+export interface RenderView {
+  scene: THREE.Scene;
+  camera: THREE.Camera;
+  // Element whose on-screen box the view is drawn into. Omit to cover the whole canvas.
+  element?: HTMLElement;
+  // Views are drawn in ascending order (default 0)
+  order?: number;
+  // Name shown in the debug overlay
+  label?: string;
+  // Replaces the default renderer.render call, e.g. to drive an EffectComposer.
+  // The viewport and scissor are already set to `rect` when this is called.
+  render?: (renderer: THREE.WebGLRenderer, rect: DOMRect) => void;
+  // Called when the GPU context is lost; nothing is drawn until it is restored
+  onContextLost?: () => void;
+  // Called once the context is back. The view's scene has already been
+  // marked for re-upload; rebuild anything else that holds GPU resources,
+  // such as EffectComposer render targets.
+  onContextRestored?: (renderer: THREE.WebGLRenderer) => void;
+}
+
+// A registered view as listed by the debug overlay
+export interface RenderViewInfo {
+  label: string;
+  paused: boolean;
+  scene: THREE.Scene;
+}
+
+export interface RenderViewHandle {
+  unregister(): void;
+  // Paused views are neither measured nor drawn, e.g. while off-screen
+  setPaused(paused: boolean): void;
+}
+
+/**
+ * Owns the single WebGL context used by every effect on the page. Effects
+ * register a view instead of constructing their own WebGLRenderer, and the
+ * service draws each view into its element's rect on one fixed canvas.
+ * That canvas is layered above the page, so views are drawn over any content
+ * in front of their element; keep scene backgrounds transparent and paint
+ * them with the element's CSS instead.
+ */
+@Injectable({ providedIn: 'root' })
+export class WebGLRendererService implements OnDestroy {
+  private renderer: THREE.WebGLRenderer | null = null;
+  private container: HTMLElement | null = null;
+  private views: RenderView[] = [];
+  private paused = new Set<RenderView>();
+  private rects = new Map<RenderView, DOMRect>();
+  private frameSubscriptions: FrameSubscription[] = [];
+  private qualitySubscription: Subscription | null = null;
+
+  private readonly contextLostSignal = signal(false);
+
+  // True between a webglcontextlost event and the matching restore
+  readonly contextLost = this.contextLostSignal.asReadonly();
+
+  constructor(
+    private scheduler: FrameSchedulerService,
+    private support: WebGLSupportService,
+    private quality: QualityService,
+    @Inject(DOCUMENT) private document: Document,
+    @Inject(WEBGL_EFFECTS_CONFIG) private config: WebGLEffectsConfig
+  ) {}
+
+  /**
+   * Whether effects can render. Creates the shared renderer on first call, so
+   * a context that the probe could open but Three.js can't still counts as
+   * unavailable. Check this before building any Three.js objects.
+   */
+  get available(): boolean {
+    if (!this.support.supported()) return false;
+
+    try {
+      this.getRenderer();
+      return true;
+    } catch {
+      this.support.disable();
+      return false;
+    }
+  }
+
+  get domElement(): HTMLCanvasElement {
+    return this.getRenderer().domElement;
+  }
+
+  // Lazily creates the shared renderer and its fixed overlay canvas
+  getRenderer(): THREE.WebGLRenderer {
+    if (this.renderer) return this.renderer;
+
+    const window = this.document.defaultView!;
+
+    this.renderer = new THREE.WebGLRenderer({
+      alpha: true,
+      antialias: true,
+      powerPreference: 'high-performance',
+      preserveDrawingBuffer: false,
+    });
+    this.renderer.setPixelRatio(this.pixelRatio);
+    this.renderer.setSize(window.innerWidth, window.innerHeight);
+    this.renderer.setClearColor(0x000000, 0);
+    this.renderer.outputColorSpace = THREE.SRGBColorSpace;
+
+    // Views share the canvas, so it is cleared once per frame rather than per view
+    this.renderer.autoClear = false;
+    // ...and draw call statistics cover the whole frame, not the last view
+    this.renderer.info.autoReset = false;
+
+    const { canvasContainer = {} } = this.config;
+    this.container = this.document.createElement('div');
+    this.container.id = canvasContainer.id ?? 'webgl-effect-container';
+    Object.assign(this.container.style, {
+      position: 'fixed',
+      top: '0',
+      left: '0',
+      width: '100%',
+      height: '100%',
+      pointerEvents: 'none',
+      zIndex: String(canvasContainer.zIndex ?? 1001),
+    });
+    this.container.appendChild(this.renderer.domElement);
+    containerParent(this.document, canvasContainer).appendChild(this.container);
+
+    window.addEventListener('resize', this.handleResize);
+
+    // Lower tiers cap the pixel ratio, the single biggest cost on HiDPI screens
+    this.qualitySubscription = this.quality.settings$.subscribe(() =>
+      this.renderer?.setPixelRatio(this.pixelRatio)
+    );
+
+    // Three.js registers its own listeners first, so its GL state has been
+    // re-initialised by the time ours run
+    const canvas = this.renderer.domElement;
+    canvas.addEventListener('webglcontextlost', this.handleContextLost);
+    canvas.addEventListener('webglcontextrestored', this.handleContextRestored);
+
+    return this.renderer;
+  }
+
+  register(view: RenderView): RenderViewHandle {
+    this.getRenderer();
+    this.views.push(view);
+    this.views.sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+    this.updateLoop();
+
+    return {
+      unregister: () => {
+        this.views = this.views.filter((v) => v !== view);
+        this.paused.delete(view);
+        this.rects.delete(view);
+        this.updateLoop();
+      },
+      setPaused: (paused: boolean) => {
+        if (paused) {
+          this.paused.add(view);
+        } else {
+          this.paused.delete(view);
+        }
+        this.updateLoop();
+      },
+    };
+  }
+
+  // Draw calls and GPU memory of the last frame; null before any view registers
+  get info(): THREE.WebGLInfo | null {
+    return this.renderer?.info ?? null;
+  }
+
+  inspect(): RenderViewInfo[] {
+    return this.views.map((view, index) => ({
+      label: view.label ?? `View ${index + 1}`,
+      paused: this.paused.has(view),
+      scene: view.scene,
+    }));
+  }
+
+  // Draws every registered view into its region of the shared canvas
+  render(): void {
+    if (!this.renderer) return;
+
+    const renderer = this.renderer;
+    const { width, height } = renderer.getSize(new THREE.Vector2());
+    renderer.info.reset();
+
+    renderer.setScissorTest(false);
+    renderer.setViewport(0, 0, width, height);
+    renderer.clear();
+
+    for (const view of this.views) {
+      if (this.paused.has(view)) continue;
+
+      const rect = this.rects.get(view) ?? this.measure(view);
+
+      // Skip views that are empty or entirely off-screen
+      if (
+        rect.width <= 0 ||
+        rect.height <= 0 ||
+        rect.bottom < 0 ||
+        rect.top > height ||
+        rect.right < 0 ||
+        rect.left > width
+      ) {
+        continue;
+      }
+
+      // WebGL's origin is bottom-left, the DOM's is top-left
+      const bottom = height - rect.bottom;
+      renderer.setViewport(rect.left, bottom, rect.width, rect.height);
+      renderer.setScissor(rect.left, bottom, rect.width, rect.height);
+      renderer.setScissorTest(true);
+
+      // Keep perspective cameras matched to the region they draw into
+      const camera = view.camera;
+      if (camera instanceof THREE.PerspectiveCamera) {
+        const aspect = rect.width / rect.height;
+        if (camera.aspect !== aspect) {
+          camera.aspect = aspect;
+          camera.updateProjectionMatrix();
+        }
+      }
+
+      if (view.render) {
+        view.render(renderer, rect);
+      } else {
+        renderer.render(view.scene, view.camera);
+      }
+    }
+
+    renderer.setScissorTest(false);
+  }
+
+  ngOnDestroy(): void {
+    this.stopLoop();
+    this.views = [];
+    this.paused.clear();
+    this.rects.clear();
+    this.document.defaultView?.removeEventListener('resize', this.handleResize);
+    this.qualitySubscription?.unsubscribe();
+
+    const canvas = this.renderer?.domElement;
+    canvas?.removeEventListener('webglcontextlost', this.handleContextLost);
+    canvas?.removeEventListener(
+      'webglcontextrestored',
+      this.handleContextRestored
+    );
+
+    this.renderer?.dispose();
+    this.renderer = null;
+
+    this.container?.remove();
+    this.container = null;
+  }
+
+  private measure(view: RenderView): DOMRect {
+    if (view.element) return view.element.getBoundingClientRect();
+
+    const { width, height } = this.renderer!.getSize(new THREE.Vector2());
+    return new DOMRect(0, 0, width, height);
+  }
+
+  // Measure alongside every other layout read, then draw after every effect
+  // has updated its uniforms
+  private startLoop(): void {
+    if (this.frameSubscriptions.length) return;
+
+    this.frameSubscriptions = [
+      this.scheduler.subscribe(() => {
+        for (const view of this.views) {
+          if (!this.paused.has(view)) {
+            this.rects.set(view, this.measure(view));
+          }
+        }
+      }, FramePhase.READ),
+      this.scheduler.subscribe(({ delta }) => {
+        // Only frames that actually draw something count towards quality
+        this.quality.sample(delta);
+        this.render();
+      }, FramePhase.RENDER),
+    ];
+  }
+
+  private stopLoop(): void {
+    this.frameSubscriptions.forEach((s) => s.unsubscribe());
+    this.frameSubscriptions = [];
+  }
+
+  // Runs the loop only while at least one view can be drawn
+  private updateLoop(): void {
+    const active =
+      !this.contextLost() && this.views.some((v) => !this.paused.has(v));
+
+    if (active) {
+      this.startLoop();
+      return;
+    }
+
+    const wasRunning = this.frameSubscriptions.length > 0;
+    this.stopLoop();
+
+    // Leave an empty canvas rather than the last frame
+    if (wasRunning && !this.contextLost()) {
+      this.renderer?.setScissorTest(false);
+      this.renderer?.clear();
+    }
+  }
+
+  private get pixelRatio(): number {
+    const window = this.document.defaultView!;
+    return Math.min(
+      window.devicePixelRatio,
+      this.quality.settings().maxPixelRatio
+    );
+  }
+
+  private readonly handleResize = (): void => {
+    const window = this.document.defaultView!;
+    // The device pixel ratio changes when the window moves between screens
+    this.renderer?.setPixelRatio(this.pixelRatio);
+    this.renderer?.setSize(window.innerWidth, window.innerHeight);
+  };
+
+  private readonly handleContextLost = (event: Event): void => {
+    // Without this the browser never attempts to restore the context
+    event.preventDefault();
+
+    this.contextLostSignal.set(true);
+    this.stopLoop();
+    this.views.forEach((view) => view.onContextLost?.());
+  };
+
+  private readonly handleContextRestored = (): void => {
+    const renderer = this.renderer!;
+    this.contextLostSignal.set(false);
+
+    for (const view of this.views) {
+      markForReupload(view.scene);
+      view.onContextRestored?.(renderer);
+    }
+
+    this.handleResize();
+    this.updateLoop();
+  };
+}
+
+/**
+ * Flags every material and texture under `object` so Three.js recompiles and
+ * re-uploads them on the next render. Needed after a context restore for
+ * anything Three.js can't rebuild from the CPU-side copy on its own.
+ */
+export function markForReupload(object: THREE.Object3D): void {
+  object.traverse((child) => {
+    const material = (child as THREE.Mesh).material;
+    if (!material) return;
+
+    const materials = Array.isArray(material) ? material : [material];
+    materials.forEach(markMaterialForReupload);
+  });
+}
+
+export function markMaterialForReupload(material: THREE.Material): void {
+  material.needsUpdate = true;
+
+  // Textures can live on the material itself or in shader uniforms
+  const values: unknown[] = Object.values(material);
+  if (material instanceof THREE.ShaderMaterial) {
+    values.push(...Object.values(material.uniforms).map((u) => u.value));
+  }
+
+  for (const value of values) {
+    // Skip textures that have never been uploaded, since bumping their
+    // version would make Three.js upload an image that isn't there yet, and
+    // render target textures, which are rebuilt with their target
+    if (
+      value instanceof THREE.Texture &&
+      value.image &&
+      !value.isRenderTargetTexture
+    ) {
+      value.needsUpdate = true;
+    }
+  }
+}
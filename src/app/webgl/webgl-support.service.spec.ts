@@ -0,0 +1,29 @@
+import { TestBed } from '@angular/core/testing';
+
+import { NO_WEBGL_CLASS, WebGLSupportService } from './webgl-support.service';
+
+describe('WebGLSupportService', () => {
+  let service: WebGLSupportService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(WebGLSupportService);
+  });
+
+  afterEach(() => {
+    document.documentElement.classList.remove(NO_WEBGL_CLASS);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should switch the page to fallback mode when disabled', () => {
+    service.disable();
+
+    expect(service.supported()).toBeFalse();
+    expect(
+      document.documentElement.classList.contains(NO_WEBGL_CLASS)
+    ).toBeTrue();
+  });
+});
@@ -0,0 +1,49 @@
+// webgl-support.service.ts
+import { DOCUMENT } from '@angular/common';
+import { Inject, Injectable, signal } from '@angular/core';
+
+// Added to <html> when effects fall back to plain DOM, so stylesheets can
+// reveal the underlying content with `:host-context(.no-webgl)`
+export const NO_WEBGL_CLASS = 'no-webgl';
+
+/**
+ * Probes for WebGL once per page. Effects check `supported()` before touching
+ * Three.js and show their static content instead when it is false.
+ */
+@Injectable({ providedIn: 'root' })
+export class WebGLSupportService {
+  private readonly supportedSignal = signal(false);
+
+  readonly supported = this.supportedSignal.asReadonly();
+
+  constructor(@Inject(DOCUMENT) private document: Document) {
+    if (this.probe()) {
+      this.supportedSignal.set(true);
+    } else {
+      this.disable();
+    }
+  }
+
+  // Switches to fallback mode, e.g. when creating the renderer fails even
+  // though the probe succeeded
+  disable(): void {
+    this.supportedSignal.set(false);
+    this.document.documentElement.classList.add(NO_WEBGL_CLASS);
+  }
+
+  private probe(): boolean {
+    try {
+      const canvas = this.document.createElement('canvas');
+      const gl = (canvas.getContext('webgl2') ??
+        canvas.getContext('webgl')) as WebGLRenderingContext | null;
+      if (!gl) return false;
+
+      // Hand the context back rather than waiting for garbage collection;
+      // browsers cap the number of live contexts
+      gl.getExtension('WEBGL_lose_context')?.loseContext();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}